@@ -1,27 +1,24 @@
 // convert-csv-to-json.js
-import fs from "fs";
+// The CSV is now converted by the website's ingestion script, which validates every row and writes
+// the manifest the site checks on startup. This forwards to it: node index.js [--merge] [--dry-run]
+import { spawnSync } from "child_process";
 import path from "path";
 import { fileURLToPath } from "url";
-import csv from "csv-parser";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Input and output file paths
+// Input file path; the output is the website's src/lib/anime-data.v<N>.json and its manifest
 const inputFile = path.join(__dirname, "mal_anime_data.csv");
-const outputFile = path.join(__dirname, "anime-data.json");
+const websiteDir = path.join(__dirname, "..", "website");
 
-const results = [];
+const result = spawnSync("pnpm", ["ingest", inputFile, ...process.argv.slice(2)], {
+  cwd: websiteDir,
+  stdio: "inherit",
+  shell: process.platform === "win32",
+});
 
-fs.createReadStream(inputFile)
-  .pipe(csv())
-  .on("data", (row) => {
-    results.push(row);
-  })
-  .on("end", () => {
-    fs.writeFileSync(outputFile, JSON.stringify(results, null, 2), "utf-8");
-    console.log(`✅ Conversion complete! JSON saved to ${outputFile}`);
-  })
-  .on("error", (err) => {
-    console.error("❌ Error reading CSV:", err);
-  });
+if (result.error) {
+  console.error("❌ Could not run `pnpm ingest` in the website directory:", result.error.message);
+}
+process.exit(result.status ?? 1);
@@ -0,0 +1,127 @@
+// Play the committed chat fixtures through the chat route and check the streamed UI message parts,
+// against a small dataset built in a temporary directory. Usage: pnpm test
+import assert from 'node:assert/strict';
+import { after, before, describe, test } from 'node:test';
+import { mkdir, mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { UIMessageChunk } from 'ai';
+import { ingestAnimeRecords, writeDataset } from '../src/lib/ingest';
+import type { ChatFixture } from '../src/lib/replay';
+
+const FIXTURES_DIR = path.resolve('fixtures', 'chat');
+
+const ANIME = [
+  { MAL_ID: '16498', Title: 'Shingeki no Kyojin', English: 'Attack on Titan', Score: '8.54', Popularity: '1', Episodes: '25', Type: 'TV', Status: 'Finished Airing', Aired: 'Apr 7, 2013 to Sep 29, 2013', Genres: 'Action, Drama', Themes: 'Gore, Military', Duration: '24 min per ep' },
+  { MAL_ID: '5114', Title: 'Fullmetal Alchemist: Brotherhood', English: 'Fullmetal Alchemist: Brotherhood', Score: '9.1', Popularity: '3', Episodes: '64', Type: 'TV', Status: 'Finished Airing', Aired: 'Apr 5, 2009 to Jul 4, 2010', Genres: 'Action, Adventure, Drama, Fantasy', Themes: 'Military', Duration: '24 min per ep' },
+  { MAL_ID: '30831', Title: 'Kono Subarashii Sekai ni Shukufuku wo!', English: 'KonoSuba', Score: '8.1', Popularity: '20', Episodes: '10', Type: 'TV', Status: 'Finished Airing', Aired: 'Jan 14, 2016 to Mar 16, 2016', Genres: 'Adventure, Comedy, Fantasy', Themes: 'Isekai, Parody', Duration: '23 min per ep' },
+];
+
+type ChatPost = (req: Request) => Promise<Response>;
+
+let POST: ChatPost;
+let workDir: string;
+const originalDir = process.cwd();
+
+async function readFixtures(): Promise<ChatFixture[]> {
+  const files = (await readdir(FIXTURES_DIR)).filter(file => file.endsWith('.json')).sort();
+  return Promise.all(files.map(async file => JSON.parse(await readFile(path.join(FIXTURES_DIR, file), 'utf-8')) as ChatFixture));
+}
+
+// Send one user message to the route and collect the parts it streams
+async function chat(text: string, body: Record<string, unknown> = {}): Promise<UIMessageChunk[]> {
+  const response = await POST(new Request('http://localhost/api/chat', {
+    method: 'POST',
+    body: JSON.stringify({ messages: [{ id: 'user-1', role: 'user', parts: [{ type: 'text', text }] }], ...body }),
+  }));
+  assert.equal(response.status, 200);
+
+  return (await response.text())
+    .split('\n')
+    .filter(line => line.startsWith('data: ') && line !== 'data: [DONE]')
+    .map(line => JSON.parse(line.slice('data: '.length)) as UIMessageChunk);
+}
+
+const textOf = (chunks: UIMessageChunk[]): string =>
+  chunks.map(chunk => (chunk.type === 'text-delta' ? chunk.delta : '')).join('');
+
+const toolCallsOf = (chunks: UIMessageChunk[]) =>
+  chunks.flatMap(chunk => (chunk.type === 'tool-input-available' ? [{ toolName: chunk.toolName, input: chunk.input }] : []));
+
+const toolOutputsOf = (chunks: UIMessageChunk[]) =>
+  chunks.flatMap(chunk => (chunk.type === 'tool-output-available' ? [chunk.output as { success: boolean; results: Array<{ title: string }> }] : []));
+
+before(async () => {
+  // The route reads the dataset from src/lib under the working directory
+  workDir = await mkdtemp(path.join(tmpdir(), 'anime-chat-'));
+  await mkdir(path.join(workDir, 'src', 'lib'), { recursive: true });
+  const result = ingestAnimeRecords(ANIME.map((row, index) => ({ line: index + 2, row: { External_Links: '[]', ...row } })));
+  assert.equal(result.quarantined.length, 0);
+  await writeDataset(result, path.join(workDir, 'src', 'lib', 'anime-data.json'), 'chat-replay.csv');
+
+  process.env.ANIME_MOCK_FIXTURES = FIXTURES_DIR;
+  process.chdir(workDir);
+  ({ POST } = await import('../src/app/api/chat/route'));
+});
+
+after(async () => {
+  process.chdir(originalDir);
+  await rm(workDir, { recursive: true, force: true });
+});
+
+describe('chat replay', () => {
+  test('every fixture streams its text and tool calls in order', async () => {
+    const fixtures = await readFixtures();
+    assert.ok(fixtures.length > 0, `no fixtures in ${FIXTURES_DIR}`);
+
+    for (const fixture of fixtures) {
+      // A message no other fixture matches plays the fallback
+      const chunks = await chat(fixture.match ?? 'Tell me something about anime');
+      const label = fixture.match ?? 'fallback';
+
+      assert.equal(chunks[0].type, 'start', label);
+      assert.equal(chunks[chunks.length - 1].type, 'finish', label);
+      assert.ok(!chunks.some(chunk => chunk.type === 'error'), `${label}: ${JSON.stringify(chunks.find(chunk => chunk.type === 'error'))}`);
+
+      assert.equal(textOf(chunks), fixture.steps.map(step => step.text ?? '').join(''), label);
+      assert.deepEqual(toolCallsOf(chunks), fixture.steps.flatMap(step => step.toolCalls ?? []), label);
+      for (const output of toolOutputsOf(chunks)) {
+        assert.equal(output.success, true, label);
+      }
+
+      // Usage metadata is reported for every model call
+      const metadata = chunks.flatMap(chunk => ('messageMetadata' in chunk && chunk.messageMetadata ? [chunk.messageMetadata] : []));
+      const steps = metadata.map(value => (value as { steps?: unknown[] }).steps).filter(Boolean).pop();
+      assert.equal(steps?.length, fixture.steps.length, label);
+    }
+  });
+
+  test('tool results come from the dataset', async () => {
+    const chunks = await chat('Shows like Attack on Titan?');
+    const [search, filter] = toolOutputsOf(chunks);
+    assert.equal(search.results[0].title, 'Shingeki no Kyojin');
+    assert.deepEqual(filter.results.map(row => row.title), ['Fullmetal Alchemist: Brotherhood', 'Shingeki no Kyojin']);
+  });
+
+  test('the home-page fast path answers plain queries without the model', async () => {
+    const chunks = await chat('comedy shows from the 2010s', { fastPath: true });
+    assert.deepEqual(toolCallsOf(chunks).map(call => call.toolName), ['queryAnime']);
+    assert.deepEqual(toolOutputsOf(chunks)[0].results.map(row => row.title), ['Kono Subarashii Sekai ni Shukufuku wo!']);
+    assert.match(textOf(chunks), /\*\*comedy\*\*: genre Comedy/);
+    assert.ok(!chunks.some(chunk => chunk.type === 'reasoning-delta'));
+  });
+
+  test('the query parser answers when the model fails', async () => {
+    // Without a matching or fallback fixture the replay model fails on its first call
+    process.env.ANIME_MOCK_FIXTURES = workDir;
+    try {
+      const chunks = await chat('drama shows like Monster');
+      assert.deepEqual(toolCallsOf(chunks).map(call => call.toolName), ['queryAnime']);
+      assert.match(textOf(chunks), /model is unavailable/);
+      assert.match(textOf(chunks), /could not interpret "like monster"/);
+      assert.ok(!chunks.some(chunk => chunk.type === 'error'));
+    } finally {
+      process.env.ANIME_MOCK_FIXTURES = FIXTURES_DIR;
+    }
+  });
+});
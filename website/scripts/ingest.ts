@@ -0,0 +1,126 @@
+// Convert the MAL CSV exports into the validated datasets the site loads
+// Usage: pnpm ingest [input.csv] [output.json] [--merge] [--dry-run]
+// Companion exports next to the input CSV (characters, staff, reviews, recommendations,
+// relations, statistics, episodes) are ingested alongside it.
+// The anime export is diffed against the current dataset by MAL id and the diff is added to
+// anime-data.changes.json. --merge treats the anime export as partial (new and updated titles only;
+// companion exports are still replaced), --dry-run prints the diff without writing anything
+import { access, readFile } from 'fs/promises';
+import path from 'path';
+import {
+  ingestAnimeCsv,
+  ingestCharacterCsv,
+  ingestStaffCsv,
+  ingestReviewCsv,
+  ingestRecommendationCsv,
+  ingestRelationCsv,
+  ingestStatisticsCsv,
+  ingestEpisodeCsv,
+  writeDataset,
+  refreshAnimeDataset,
+  resolveDatasetFile,
+  type DatasetChange,
+  type DatasetManifest,
+  type IngestResult,
+  type QuarantinedRow,
+} from '../src/lib/ingest';
+
+// Optional exports of the comprehensive scraper, written next to the anime dataset
+const COMPANION_DATASETS: Array<{ input: string; output: string; ingest: (content: string) => IngestResult<unknown> }> = [
+  { input: 'mal_characters.csv', output: 'anime-characters.json', ingest: ingestCharacterCsv },
+  { input: 'mal_staff.csv', output: 'anime-staff.json', ingest: ingestStaffCsv },
+  { input: 'mal_reviews.csv', output: 'anime-reviews.json', ingest: ingestReviewCsv },
+  { input: 'mal_recommendations.csv', output: 'anime-recommendations.json', ingest: ingestRecommendationCsv },
+  { input: 'mal_related_anime.csv', output: 'anime-relations.json', ingest: ingestRelationCsv },
+  { input: 'mal_statistics.csv', output: 'anime-statistics.json', ingest: ingestStatisticsCsv },
+  { input: 'mal_episodes.csv', output: 'anime-episodes.json', ingest: ingestEpisodeCsv },
+];
+
+async function exists(filePath: string): Promise<boolean> {
+  return access(filePath).then(() => true, () => false);
+}
+
+function reportWrite(manifest: DatasetManifest, quarantined: QuarantinedRow[], output: string): void {
+  console.log(`Wrote ${manifest.rowCount} rows to ${resolveDatasetFile(output, manifest)} (dataset version ${manifest.version})`);
+  if (manifest.duplicateCount > 0) {
+    console.log(`Skipped ${manifest.duplicateCount} duplicate rows`);
+  }
+  if (quarantined.length === 0) return;
+  console.warn(`Quarantined ${quarantined.length} malformed rows:`);
+  for (const { line, errors } of quarantined.slice(0, 20)) {
+    console.warn(`  line ${line}: ${errors.join('; ')}`);
+  }
+  if (quarantined.length > 20) {
+    console.warn(`  ...see ${output.replace(/\.json$/, '.quarantine.json')} for the full list`);
+  }
+}
+
+async function ingestFile(
+  input: string,
+  output: string,
+  ingest: (content: string) => IngestResult<unknown>
+): Promise<void> {
+  const result = ingest(await readFile(input, 'utf-8'));
+  if (result.rows.length === 0) {
+    throw new Error(`No valid rows in ${input}; the dataset was not written`);
+  }
+
+  const manifest = await writeDataset(result, output, input);
+
+  reportWrite(manifest, result.quarantined, output);
+}
+
+function printChange(change: DatasetChange, verbose: boolean): void {
+  const from = change.previousVersion !== null ? `version ${change.previousVersion}` : 'an empty dataset';
+  console.log(
+    `Changes from ${from}: ${change.added.length} added, ${change.removed.length} removed, ` +
+    `${change.changed.length} changed, ${change.unchangedCount} unchanged`
+  );
+  if (!verbose) return;
+
+  const show = <T>(label: string, items: T[], format: (item: T) => string) => {
+    for (const item of items.slice(0, 20)) console.log(`  ${label} ${format(item)}`);
+    if (items.length > 20) console.log(`  ...and ${items.length - 20} more`);
+  };
+  show('+', change.added, item => `${item.title} (${item.malId ?? 'no id'})`);
+  show('-', change.removed, item => `${item.title} (${item.malId ?? 'no id'})`);
+  show('~', change.changed, item =>
+    `${item.title}: ${item.changes.map(({ field, from: before, to }) => `${field} ${JSON.stringify(before)} -> ${JSON.stringify(to)}`).join(', ')}`
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const merge = args.includes('--merge');
+  const dryRun = args.includes('--dry-run');
+  const [inputArg, outputArg] = args.filter(arg => !arg.startsWith('--'));
+
+  const input = path.resolve(inputArg ?? path.join('..', 'data', 'mal_anime_data.csv'));
+  const output = path.resolve(outputArg ?? path.join('src', 'lib', 'anime-data.json'));
+
+  const result = ingestAnimeCsv(await readFile(input, 'utf-8'));
+  if (result.rows.length === 0) {
+    throw new Error(`No valid rows in ${input}; the dataset was not written`);
+  }
+
+  const { change, manifest } = await refreshAnimeDataset(result, output, input, { merge, dryRun });
+  printChange(change, dryRun);
+  if (!manifest) {
+    console.log('Dry run; nothing was written');
+    return;
+  }
+
+  reportWrite(manifest, result.quarantined, output);
+
+  for (const companion of COMPANION_DATASETS) {
+    const companionInput = path.join(path.dirname(input), companion.input);
+    if (await exists(companionInput)) {
+      await ingestFile(companionInput, path.join(path.dirname(output), companion.output), companion.ingest);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('Ingestion failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,31 +1,155 @@
-import { streamText, UIMessage, convertToModelMessages, stepCountIs } from "ai";
-import { google } from "@ai-sdk/google";
-import { tools } from "@/lib/tools";
+import {
+  streamText,
+  UIMessage,
+  UIMessageStreamWriter,
+  convertToModelMessages,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
+  stepCountIs,
+} from "ai";
+import { runAnimeQuery, tools } from "@/lib/tools";
+import type { ChatMessageMetadata, StepUsage } from "@/lib/budget";
+import { loadAnimeData, warmUpAnimeIndex } from "@/lib/anime";
+import { getLanguageModel, resolveModel } from "@/lib/models";
+import { parseAnimeQuery, type ParsedQuery } from "@/lib/parser";
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
+type ChatMessage = UIMessage<ChatMessageMetadata>;
+
+// Stream chunks that show the model has started answering
+const ANSWER_CHUNKS = new Set(["text-delta", "reasoning-delta", "tool-input-start", "tool-input-available"]);
+
+function getLastUserText(messages: UIMessage[]): string {
+  const message = messages[messages.length - 1];
+  if (!message || message.role !== "user") return "";
+  return message.parts.map(part => (part.type === "text" ? part.text : "")).join("").trim();
+}
+
+interface ParsedAnswer {
+  parsed: ParsedQuery;
+  output: Awaited<ReturnType<typeof runAnimeQuery>>;
+}
+
+// The query parsed against the dataset and its results, when the parse is good enough to answer with.
+// Null when there is no query or the dataset or store fails, so the model answers or its own error is shown instead
+async function runParsedQuery(text: string, accept: (parsed: ParsedQuery) => boolean): Promise<ParsedAnswer | null> {
+  if (!text) return null;
+  try {
+    const parsed = parseAnimeQuery(await loadAnimeData(), text);
+    if (!accept(parsed)) return null;
+    return { parsed, output: await runAnimeQuery(parsed.filters, {}) };
+  } catch (error) {
+    console.error("[chat] Failed to answer with the query parser:", error);
+    return null;
+  }
+}
+
+// Answer with the parsed filters: a queryAnime call the UI renders like the model's own,
+// followed by what the parser understood and what it could not interpret
+function writeParsedAnswer(writer: UIMessageStreamWriter<ChatMessage>, { parsed, output }: ParsedAnswer, intro: string, outro: string) {
+  const toolCallId = `parser-${generateId()}`;
+  writer.write({ type: "start-step" });
+  writer.write({ type: "tool-input-available", toolCallId, toolName: "queryAnime", input: parsed.filters });
+  writer.write({ type: "tool-output-available", toolCallId, output });
+  writer.write({ type: "finish-step" });
+
+  const lines = [
+    intro,
+    "",
+    ...parsed.understood.map(({ phrase, meaning }) => `- **${phrase}**: ${meaning}`),
+    ...(parsed.unparsed.length > 0
+      ? ["", `I could not interpret ${parsed.unparsed.map(phrase => `"${phrase}"`).join(", ")}, so the results leave it out.`]
+      : []),
+    "",
+    output.message,
+    "",
+    outro,
+  ];
+  const id = `text-${toolCallId}`;
+  writer.write({ type: "start-step" });
+  writer.write({ type: "text-start", id });
+  writer.write({ type: "text-delta", id, delta: lines.join("\n") });
+  writer.write({ type: "text-end", id });
+  writer.write({ type: "finish-step" });
+}
+
 export async function POST(req: Request) {
   const {
     messages,
+    model: modelId,
+    fastPath,
   }: {
     messages: UIMessage[];
+    model?: string;
+    fastPath?: boolean; // the prompt from the home page, answered without the model when the parser understands all of it
   } = await req.json();
 
+  const model = resolveModel(modelId);
+  if (!model) {
+    return Response.json({ error: `Unknown model "${modelId}"` }, { status: 400 });
+  }
+  const { capabilities } = model;
+  const query = getLastUserText(messages);
+
+  if (fastPath && messages.length === 1) {
+    const answer = await runParsedQuery(query, parsed => parsed.complete);
+    if (answer) {
+      const stream = createUIMessageStream<ChatMessage>({
+        execute: ({ writer }) => {
+          writer.write({ type: "start" });
+          writeParsedAnswer(
+            writer,
+            answer,
+            "I searched the database directly for:",
+            "Ask a follow-up for recommendations and commentary."
+          );
+          writer.write({ type: "finish" });
+        },
+      });
+      return createUIMessageStreamResponse({ stream });
+    }
+  }
+
+  // Load the dataset and search index while the model plans its first step;
+  // load failures are reported by the tools themselves
+  if (capabilities.tools) {
+    warmUpAnimeIndex().catch(() => undefined);
+  }
+
   const result = streamText({
-    model: google("gemini-2.5-flash"),
-    messages: convertToModelMessages(messages),
+    model: getLanguageModel(model),
+    // Earlier tool results are sent back through the tools' budgets too
+    messages: convertToModelMessages(messages, { tools }),
     system: `You are a helpful anime recommendation assistant with access to a comprehensive anime database. 
 
 Your workflow should be:
 1. First, acknowledge the user's request and explain what you're going to search for
-2. Use the appropriate tools (searchAnime or filterAnime) to find relevant anime
+2. Use the appropriate tools (searchAnime or queryAnime) to find relevant anime
 3. After getting the results, provide thoughtful analysis and recommendations based on what was found
 
 When using tools:
 - Be selective with limits (default 10-15 results) to avoid overwhelming responses
-- For broad searches, use filterAnime with specific criteria
+- Large result sets come back one page at a time with a nextCursor; call getMoreResults with it only when you need more than the first page
+- Keep tool results small: pass fields with only what you need (e.g. ["title", "score", "genres"]) and leave out descriptions unless you will use them. Results that exceed the token budget (maxTokens) start the next page, and the omitted summary says what was left out
+- For broad searches, use queryAnime with specific criteria; every categorical field takes values to include and to exclude (e.g. genres: { values: ["Comedy"], exclude: ["Action"] })
+- Themes such as Isekai, Time Travel or Gore are separate from genres; filter them with the themes criteria
+- When a queryAnime query returns many results, request facets (e.g. genres, year) to suggest ways to narrow them down
 - For text-based searches, use searchAnime
+- For mood, theme or plot descriptions ("melancholic space travel with found family"), use semanticSearchAnime
+- For "more like X" requests, use findSimilarAnime with X as the seed and explain the matching reasons
+- Drop rate, completion rate, score spread and divisiveness come from MyAnimeList watch statistics: filter on them with the dropRate, completionRate and scoreStdDev ranges or divisive (e.g. "highly rated but rarely dropped long shows"), and use getWatchAnalytics to explain how a title or a group of titles is received
+- For episode questions ("best episodes of X", "which episode aired on 2016-04-03", filler lists), use getEpisodes
+- For "what order should I watch X" questions, use getWatchOrder and point out which entries are optional
+- To list one entry per show instead of every season, pass groupFranchises: true to searchAnime or queryAnime
+- For "fans of X and Y also liked" requests, or to back suggestions with community opinion, use getFansAlsoLiked with all the titles the user liked and quote the fans' rationale
+- For questions about characters or who voiced them, use searchCharacters; for the cast and staff of one title, use getAnimeCast
+- For "anime with <voice actor>" or "anime by <director/composer>", use findAnimeByVoiceActor or findAnimeByStaff
+- For opening and ending songs ("anime with an OP by LiSA", "which show used this song"), use searchThemeSongs; to combine a singer with other criteria in queryAnime, use the artists criteria
+- For questions about how an anime was received or how its story, animation, sound or characters hold up, use getAnimeReviews and quote the excerpts with the reviewer's name instead of relying on your own knowledge
+- For aspect constraints such as "great animation but a weak story", use getAnimeReviews with aspectScores
 - Always provide commentary after tool results explaining why these recommendations fit the user's request
 
 Your workflow will look something like this:
@@ -34,11 +158,64 @@ Your workflow will look something like this:
 - You will analyze the results from your searches and filters, comparing them to the user's preferences
 - Finally, you will synthesize your findings into a concise list of recommendations with explanations
 
-Focus on quality recommendations over quantity. Always prioritize latest anime results, you can try sorting if you want. Explain what makes each recommendation special or fitting for the user's criteria.`,
-    tools: tools,
-    stopWhen: stepCountIs(10),
+Focus on quality recommendations over quantity. Always prioritize latest anime results, you can try sorting if you want. Explain what makes each recommendation special or fitting for the user's criteria.${capabilities.tools ? "" : `
+
+The database tools are not available with this model. Answer from your own knowledge and say that the titles were not checked against the database.`}`,
+    ...(capabilities.tools ? { tools, stopWhen: stepCountIs(10) } : {}),
+    ...(capabilities.reasoning && model.provider === "google"
+      ? { providerOptions: { google: { thinkingConfig: { includeThoughts: true } } } }
+      : {}),
   });
 
+  // Token usage of each model call in the tool loop, reported with the message for the context meter
+  const steps: StepUsage[] = [];
+  let stepToolNames: string[] = [];
+
   // send sources and reasoning back to the client
-  return result.toUIMessageStreamResponse();
+  const modelStream = result.toUIMessageStream<ChatMessage>({
+    sendReasoning: capabilities.reasoning,
+    messageMetadata: ({ part }): ChatMessageMetadata | undefined => {
+      switch (part.type) {
+        case "start":
+          return { model: model.id, contextWindow: capabilities.contextWindow };
+        case "tool-call":
+          stepToolNames = [...stepToolNames, part.toolName];
+          return undefined;
+        case "finish-step":
+          steps.push({ usage: part.usage, toolNames: stepToolNames });
+          stepToolNames = [];
+          return { steps: [...steps] };
+        case "finish":
+          return { totalUsage: part.totalUsage };
+        default:
+          return undefined;
+      }
+    },
+  });
+
+  // A model that fails before it answers at all is treated as unavailable,
+  // and the query is answered by the parser instead when it understood any of it
+  const stream = createUIMessageStream<ChatMessage>({
+    execute: async ({ writer }) => {
+      let answered = false;
+      for await (const chunk of modelStream) {
+        if (chunk.type === "error" && !answered) {
+          const answer = await runParsedQuery(query, parsed => parsed.understood.length > 0);
+          if (answer) {
+            writeParsedAnswer(
+              writer,
+              answer,
+              "The AI model is unavailable right now, so I searched with the built-in query parser instead:",
+              "Try again later for recommendations and commentary."
+            );
+            writer.write({ type: "finish" });
+            return;
+          }
+        }
+        if (ANSWER_CHUNKS.has(chunk.type)) answered = true;
+        writer.write(chunk);
+      }
+    },
+  });
+  return createUIMessageStreamResponse({ stream });
 }
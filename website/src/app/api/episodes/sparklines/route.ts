@@ -0,0 +1,32 @@
+import { loadEpisodes, getSeriesEpisodes, getScoreSparkline } from "@/lib/episodes";
+
+// The chat UI asks for the series of a few result pages at a time
+const MAX_IDS = 100;
+
+// Episode score sparklines for the series shown in chat results, e.g. ?ids=1,5,6
+export async function GET(req: Request) {
+  const ids = (new URL(req.url).searchParams.get("ids") ?? "")
+    .split(",")
+    .map(Number)
+    .filter(id => Number.isInteger(id) && id > 0)
+    .slice(0, MAX_IDS);
+
+  try {
+    const episodes = await loadEpisodes();
+    const sparklines: Record<number, number[]> = {};
+
+    if (episodes) {
+      for (const id of ids) {
+        const sparkline = getScoreSparkline(getSeriesEpisodes(episodes, id));
+        if (sparkline) sparklines[id] = sparkline;
+      }
+    }
+
+    return Response.json({ sparklines });
+  } catch (error) {
+    return Response.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
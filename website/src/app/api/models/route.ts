@@ -0,0 +1,9 @@
+import { getDefaultModelId, getModelOptions } from "@/lib/models";
+
+// Models for the picker, from the server-side registry
+export async function GET() {
+  return Response.json({
+    models: getModelOptions(),
+    defaultModel: getDefaultModelId(),
+  });
+}
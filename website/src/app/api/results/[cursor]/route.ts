@@ -0,0 +1,20 @@
+import { getResultPage, DEFAULT_PAGE_SIZE } from "@/lib/results";
+
+// Later pages of a cached tool result, addressed by the tool's nextCursor
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ cursor: string }> }
+) {
+  const { cursor } = await params;
+  const pageSize = Number(new URL(req.url).searchParams.get("pageSize")) || DEFAULT_PAGE_SIZE;
+
+  const page = getResultPage(cursor, pageSize);
+  if (!page) {
+    return Response.json(
+      { error: "This cursor is invalid or has expired" },
+      { status: 404 }
+    );
+  }
+
+  return Response.json(page);
+}
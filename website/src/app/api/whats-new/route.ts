@@ -0,0 +1,47 @@
+import { getDatasetPath } from "@/lib/datasets";
+import { readChangelog, readDatasetManifest } from "@/lib/ingest";
+
+// Titles listed per added/removed/changed list; the counts always cover all of them
+const DEFAULT_TITLES_PER_LIST = 50;
+
+// What recent refreshes of anime-data.json changed, newest first,
+// e.g. ?since=12 for the changes after dataset version 12, ?limit=3 for the last three refreshes
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const since = params.has("since") ? Number(params.get("since")) : null;
+  const limit = Number(params.get("limit")) || 5;
+  const titlesPerList = Number(params.get("titles")) || DEFAULT_TITLES_PER_LIST;
+
+  try {
+    const datasetPath = getDatasetPath("anime-data.json");
+    const [manifest, changelog] = await Promise.all([readDatasetManifest(datasetPath), readChangelog(datasetPath)]);
+
+    const changes = changelog
+      .filter(change => since === null || Number.isNaN(since) || change.version > since)
+      .slice(0, limit)
+      .map(change => ({
+        version: change.version,
+        previousVersion: change.previousVersion,
+        source: change.source,
+        builtAt: change.builtAt,
+        addedCount: change.added.length,
+        removedCount: change.removed.length,
+        changedCount: change.changed.length,
+        unchangedCount: change.unchangedCount,
+        added: change.added.slice(0, titlesPerList),
+        removed: change.removed.slice(0, titlesPerList),
+        changed: change.changed.slice(0, titlesPerList),
+      }));
+
+    return Response.json({
+      version: manifest?.version ?? null,
+      builtAt: manifest?.builtAt ?? null,
+      changes,
+    });
+  } catch (error) {
+    return Response.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -9,8 +9,8 @@ import { Message, MessageContent } from "@/components/ai-elements/message";
 import { type PromptInputMessage } from "@/components/ai-elements/prompt-input";
 import PromptInputForm from "@/components/ai-elements/prompt-input-form";
 import { Actions, Action } from "@/components/ai-elements/actions";
-import { Fragment, useEffect, useState } from "react";
-import { usePendingMessageStore } from "@/lib/store";
+import { Fragment, useEffect, useRef, useState } from "react";
+import { useModelStore, usePendingMessageStore } from "@/lib/store";
 import { useChat } from "@ai-sdk/react";
 import { Response } from "@/components/ai-elements/response";
 import { RefreshCcwIcon, CopyIcon } from "lucide-react";
@@ -27,39 +27,180 @@ import {
 } from "@/components/ai-elements/reasoning";
 import { Loader } from "@/components/ai-elements/loader";
 import { Button } from "@/components/ui/button";
+import {
+  Context,
+  ContextContent,
+  ContextContentBody,
+  ContextContentFooter,
+  ContextContentHeader,
+  ContextInputUsage,
+  ContextOutputUsage,
+  ContextReasoningUsage,
+  ContextStepsUsage,
+  ContextTrigger,
+} from "@/components/ai-elements/context";
+import { isToolUIPart, type UIMessage } from "ai";
+import type { ModelId } from "tokenlens";
+import type { ChatMessageMetadata } from "@/lib/budget";
+
+type ChatMessage = UIMessage<ChatMessageMetadata>;
+
+type WatchOrderEntry = {
+  title: string;
+  type: string;
+  year: string;
+  optional: boolean;
+  note: string | null;
+};
+
+// Heading of the card each tool call renders as; tools not listed here render no card
+const TOOL_HEADINGS: Record<string, string> = {
+  "tool-searchAnime": "Searching anime",
+  "tool-semanticSearchAnime": "Searching anime",
+  "tool-findSimilarAnime": "Finding similar anime",
+  "tool-queryAnime": "Filtering anime",
+  "tool-filterAnime": "Filtering anime",
+  "tool-filterAnimeWithExclusions": "Filtering anime",
+  "tool-getMoreResults": "Loading more results",
+  "tool-findAnimeByVoiceActor": "Finding roles",
+  "tool-findAnimeByStaff": "Finding staff credits",
+  "tool-searchThemeSongs": "Searching theme songs",
+  "tool-getAnimeReviews": "Reading reviews",
+  "tool-getFansAlsoLiked": "Finding what fans also liked",
+  "tool-getWatchOrder": "Resolving watch order",
+  "tool-getEpisodes": "Looking up episodes",
+};
+
+// Context meter for an assistant message: how full the model's context was on the last step,
+// and what each step of the tool loop used
+const MessageUsage = ({ metadata }: { metadata?: ChatMessageMetadata }) => {
+  const steps = metadata?.steps ?? [];
+  if (steps.length === 0 || !metadata?.contextWindow) return null;
+
+  const last = steps[steps.length - 1].usage;
+  // Cost estimates only know the hosted models, under ids like "google:gemini-2.5-flash"
+  const modelId = metadata.model?.startsWith("google/") ? (metadata.model.replace("/", ":") as ModelId) : undefined;
 
-const models = [
-  {
-    name: "Gemini",
-    value: "google/gemini-1.5-pro",
-  }
-];
+  return (
+    <Context
+      maxTokens={metadata.contextWindow}
+      usedTokens={(last.inputTokens ?? 0) + (last.outputTokens ?? 0)}
+      usage={metadata.totalUsage}
+      steps={steps}
+      modelId={modelId}
+    >
+      <ContextTrigger size="sm" />
+      <ContextContent>
+        <ContextContentHeader />
+        <ContextContentBody className="space-y-2">
+          <ContextStepsUsage />
+          <ContextInputUsage />
+          <ContextOutputUsage />
+          <ContextReasoningUsage />
+        </ContextContentBody>
+        {modelId && <ContextContentFooter />}
+      </ContextContent>
+    </Context>
+  );
+};
+
+// Inline line chart of a series' episode scores, first episode on the left
+const Sparkline = ({ points }: { points: number[] }) => {
+  const width = 96;
+  const height = 20;
+  const min = Math.min(...points);
+  const range = Math.max(...points) - min || 1;
+  const coordinates = points
+    .map((point, i) => {
+      const x = points.length === 1 ? width / 2 : (i / (points.length - 1)) * width;
+      const y = height - 1 - ((point - min) / range) * (height - 2);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="text-primary" role="img" aria-label="Episode scores">
+      <polyline points={coordinates} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+};
 
 const ChatBotDemo = () => {
   const [input, setInput] = useState("");
-  const [model, setModel] = useState<string>(models[0].value);
+  // The selection carries over from the home page
+  const { models, model, setModel, loadModels } = useModelStore();
   const [toolPagination, setToolPagination] = useState<Record<string, number>>({});
-  const { messages, sendMessage, status, regenerate } = useChat();
+  // Pages fetched from /api/results beyond the first page a tool returned
+  const [fetchedResults, setFetchedResults] = useState<
+    Record<string, { results: unknown[]; nextCursor: string | null; expired: boolean }>
+  >({});
+  const [loadingResults, setLoadingResults] = useState<Record<string, boolean>>({});
+  // Episode score sparklines by MAL id, for the series shown in tool results
+  const [sparklines, setSparklines] = useState<Record<number, number[]>>({});
+  const requestedSparklines = useRef(new Set<number>());
+  const { messages, sendMessage, status, regenerate } = useChat<ChatMessage>();
   const pendingMessage = usePendingMessageStore((s) => s.pendingMessage);
   const pendingConsumed = usePendingMessageStore((s) => s.pendingConsumed);
   const consumePendingMessage = usePendingMessageStore((s) => s.consumePendingMessage);
   const clearPendingMessage = usePendingMessageStore((s) => s.clearPendingMessage);
 
   const AnimeResultsPaginated = ({ 
-    results, 
+    results: firstPage, 
+    totalCount,
+    nextCursor,
     toolCallId 
   }: { 
     results: unknown[]; 
+    totalCount?: number;
+    nextCursor?: string | null;
     toolCallId: string; 
   }) => {
-    const currentPage = toolPagination[toolCallId] || 1;
+    const fetched = fetchedResults[toolCallId];
+    const results = fetched ? [...firstPage, ...fetched.results] : firstPage;
+    const cursor = fetched ? fetched.nextCursor : nextCursor ?? null;
+    // Once the cursor expires, only the pages already loaded can be shown
+    const totalResults = fetched?.expired ? results.length : Math.max(totalCount ?? 0, results.length);
+    const isLoading = loadingResults[toolCallId] ?? false;
+
     const itemsPerPage = 10;
-    const totalPages = Math.ceil(results.length / itemsPerPage);
+    const totalPages = Math.ceil(totalResults / itemsPerPage);
+    const currentPage = Math.min(toolPagination[toolCallId] || 1, Math.max(totalPages, 1));
     const startIndex = (currentPage - 1) * itemsPerPage;
     const endIndex = startIndex + itemsPerPage;
     const visibleResults = results.slice(startIndex, endIndex);
 
-    const goToPage = (page: number) => {
+    // Fetch the cached results needed to show a page, following cursors from the server
+    const loadResults = async (needed: number) => {
+      let loaded = results.slice(firstPage.length);
+      let next = cursor;
+      let expired = false;
+
+      setLoadingResults(prev => ({ ...prev, [toolCallId]: true }));
+      try {
+        while (next && firstPage.length + loaded.length < needed) {
+          const pageSize = Math.min(100, needed - firstPage.length - loaded.length);
+          const response = await fetch(`/api/results/${encodeURIComponent(next)}?pageSize=${pageSize}`);
+          if (!response.ok) {
+            expired = true;
+            break;
+          }
+          const page = (await response.json()) as { results: unknown[]; nextCursor: string | null };
+          loaded = [...loaded, ...page.results];
+          next = page.nextCursor;
+        }
+      } catch {
+        expired = true;
+      } finally {
+        setFetchedResults(prev => ({ ...prev, [toolCallId]: { results: loaded, nextCursor: next, expired } }));
+        setLoadingResults(prev => ({ ...prev, [toolCallId]: false }));
+      }
+    };
+
+    const goToPage = async (page: number) => {
+      const needed = Math.min(page * itemsPerPage, totalResults);
+      if (needed > results.length && cursor) {
+        await loadResults(needed);
+      }
       setToolPagination(prev => ({
         ...prev,
         [toolCallId]: page
@@ -81,10 +222,18 @@ const ChatBotDemo = () => {
     return (
       <div className="space-y-2">
         <div className="text-sm text-muted-foreground mb-3">
-          Page {currentPage} of {totalPages} (Showing {startIndex + 1}-{Math.min(endIndex, results.length)} of {results.length} results)
+          Page {currentPage} of {totalPages} (Showing {startIndex + 1}-{Math.min(endIndex, results.length)} of {totalResults} results)
+          {isLoading && " · Loading more results..."}
         </div>
+        {fetched?.expired && (
+          <div className="text-xs text-muted-foreground">
+            Later pages are no longer available. Ask again to reload them.
+          </div>
+        )}
         {visibleResults.map((anime: unknown, idx: number) => {
           const animeData = anime as {
+            malId?: number | null;
+            number?: number;
             title?: string;
             englishTitle?: string;
             score?: number;
@@ -92,42 +241,110 @@ const ChatBotDemo = () => {
             type?: string;
             year?: string;
             genres?: string;
+            themes?: string;
             description?: string;
             rank?: number;
             popularity?: number;
             studios?: string;
             status?: string;
+            reasons?: string[];
+            credits?: string[];
+            themeSongs?: { kind: string; title: string; artist: string; episodes: string | null }[];
+            reviewScores?: Record<string, number | null>;
+            otherFranchiseEntries?: string[];
+            imageUrl?: string | null;
+            trailerUrl?: string | null;
           };
           
           return (
-            <div key={idx} className="bg-background p-3 rounded-md border shadow-sm">
-              <div className="font-semibold text-foreground">{animeData.title}</div>
-              {animeData.englishTitle && animeData.englishTitle !== animeData.title && (
-                <div className="text-sm text-muted-foreground">{animeData.englishTitle}</div>
+            <div key={idx} className="bg-background p-3 rounded-md border shadow-sm flex gap-3">
+              {animeData.imageUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={animeData.imageUrl}
+                  alt={animeData.title ?? ""}
+                  loading="lazy"
+                  className="w-16 h-24 rounded object-cover shrink-0"
+                />
               )}
-              <div className="flex gap-4 text-sm text-muted-foreground mt-1">
-                {animeData.score && <span>{animeData.score}</span>}
-                {animeData.episodes && <span>{animeData.episodes} eps</span>}
-                {animeData.type && <span>{animeData.type}</span>}
-                {animeData.year && <span>{animeData.year}</span>}
-                {animeData.rank && <span>#{animeData.rank}</span>}
+              <div className="min-w-0">
+                <div className="font-semibold text-foreground">{animeData.title}</div>
+                {animeData.englishTitle && animeData.englishTitle !== animeData.title && (
+                  <div className="text-sm text-muted-foreground">{animeData.englishTitle}</div>
+                )}
+                <div className="flex gap-4 text-sm text-muted-foreground mt-1">
+                  {animeData.number !== undefined && <span>Ep {animeData.number}</span>}
+                  {animeData.score && <span>{animeData.score}</span>}
+                  {animeData.episodes && <span>{animeData.episodes} eps</span>}
+                  {animeData.type && <span>{animeData.type}</span>}
+                  {animeData.year && <span>{animeData.year}</span>}
+                  {animeData.rank && <span>#{animeData.rank}</span>}
+                </div>
+                {animeData.genres && (
+                  <div className="text-xs text-muted-foreground/80 mt-1">{animeData.genres}</div>
+                )}
+                {animeData.malId != null && sparklines[animeData.malId] && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground/80 mt-1">
+                    <span>Episode scores</span>
+                    <Sparkline points={sparklines[animeData.malId]} />
+                  </div>
+                )}
+                {animeData.themes && (
+                  <div className="text-xs text-muted-foreground/80 mt-1">Themes: {animeData.themes}</div>
+                )}
+                {animeData.studios && (
+                  <div className="text-xs text-muted-foreground/80 mt-1">Studio: {animeData.studios}</div>
+                )}
+                {animeData.description && (
+                  <div className="text-xs text-muted-foreground mt-2 line-clamp-3">{animeData.description}</div>
+                )}
+                {animeData.reasons && animeData.reasons.length > 0 && (
+                  <div className="text-xs text-muted-foreground mt-2">{animeData.reasons.join(" · ")}</div>
+                )}
+                {animeData.reviewScores && (
+                  <div className="text-xs text-muted-foreground mt-2 capitalize">
+                    Reviews: {Object.entries(animeData.reviewScores)
+                      .filter(([, average]) => average !== null)
+                      .map(([aspect, average]) => `${aspect} ${average}`)
+                      .join(" · ")}
+                  </div>
+                )}
+                {animeData.otherFranchiseEntries && animeData.otherFranchiseEntries.length > 0 && (
+                  <div className="text-xs text-muted-foreground mt-2">
+                    Also in this franchise: {animeData.otherFranchiseEntries.join(" · ")}
+                  </div>
+                )}
+                {animeData.credits && animeData.credits.length > 0 && (
+                  <div className="text-xs text-muted-foreground mt-2">Credits: {animeData.credits.join(" · ")}</div>
+                )}
+                {animeData.themeSongs && animeData.themeSongs.length > 0 && (
+                  <div className="text-xs text-muted-foreground mt-2">
+                    {animeData.themeSongs.map((song, songIdx) => (
+                      <div key={songIdx}>
+                        {song.kind === "opening" ? "OP" : "ED"}: &ldquo;{song.title}&rdquo;{song.artist && ` by ${song.artist}`}
+                        {song.episodes && ` (eps ${song.episodes})`}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {animeData.trailerUrl && (
+                  <a
+                    href={animeData.trailerUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-primary underline mt-2 inline-block"
+                  >
+                    Watch trailer
+                  </a>
+                )}
               </div>
-              {animeData.genres && (
-                <div className="text-xs text-muted-foreground/80 mt-1">{animeData.genres}</div>
-              )}
-              {animeData.studios && (
-                <div className="text-xs text-muted-foreground/80 mt-1">Studio: {animeData.studios}</div>
-              )}
-              {animeData.description && (
-                <div className="text-xs text-muted-foreground mt-2">{animeData.description}</div>
-              )}
             </div>
           );
         })}
         
         {totalPages > 1 && (
           <div className="flex items-center justify-between mt-4 p-3 bg-muted rounded-lg">
-            <Button onClick={prevPage} disabled={currentPage === 1} className="px-4 py-2">
+            <Button onClick={prevPage} disabled={currentPage === 1 || isLoading} className="px-4 py-2">
               ← Previous
             </Button>
             
@@ -186,7 +403,7 @@ const ChatBotDemo = () => {
               )}
             </div>
 
-            <Button onClick={nextPage} disabled={currentPage === totalPages} className="px-4 py-2">
+            <Button onClick={nextPage} disabled={currentPage === totalPages || isLoading} className="px-4 py-2">
               Next →
             </Button>
           </div>
@@ -194,13 +411,114 @@ const ChatBotDemo = () => {
         
         {totalPages === 1 && results.length > 0 && (
           <div className="text-center text-sm text-muted-foreground py-2">
-            Showing all {results.length} results
+            Showing all {totalResults} results
           </div>
         )}
       </div>
     );
   };
 
+  // Refine chips built from the facet counts of a filterAnime result
+  const FacetChips = ({
+    facets
+  }: {
+    facets: Record<string, { value: string; count: number }[]>;
+  }) => {
+    const facetLabels: Record<string, string> = {
+      genres: "Genre",
+      themes: "Theme",
+      type: "Type",
+      status: "Status",
+      demographic: "Demographic",
+      source: "Source",
+      rating: "Rating",
+      studios: "Studio",
+      year: "Year",
+    };
+
+    const refine = (field: string, value: string) => {
+      sendMessage(
+        { text: `Narrow these results to ${facetLabels[field] ?? field}: ${value}` },
+        { body: { model: model } }
+      );
+    };
+
+    return (
+      <div className="space-y-2 mb-3">
+        {Object.entries(facets).map(([field, counts]) => counts.length > 0 && (
+          <div key={field} className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-1">{facetLabels[field] ?? field}:</span>
+            {counts.map(({ value, count }) => (
+              <Button
+                key={value}
+                variant="outline"
+                size="sm"
+                onClick={() => refine(field, value)}
+                disabled={status !== "ready"}
+                className="h-6 px-2 text-xs"
+              >
+                {value} ({count})
+              </Button>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Aspect averages and quoted excerpts from a getAnimeReviews result
+  const ReviewSummary = ({
+    summary,
+    excerpts
+  }: {
+    summary: { scores: Record<string, { average: number | null }> };
+    excerpts: { username: string; date: string; helpfulCount: number; excerpt: string }[];
+  }) => (
+    <div className="space-y-2 mb-3">
+      <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+        {Object.entries(summary.scores).map(([aspect, { average }]) => average !== null && (
+          <span key={aspect} className="capitalize">{aspect} {average}</span>
+        ))}
+      </div>
+      {excerpts.map((review, idx) => (
+        <blockquote key={idx} className="border-l-2 pl-3 text-xs text-muted-foreground">
+          <div>{review.excerpt}</div>
+          <div className="mt-1 text-muted-foreground/80">
+            {review.username}{review.date && `, ${review.date}`} · {review.helpfulCount} found helpful
+          </div>
+        </blockquote>
+      ))}
+    </div>
+  );
+
+  // Release and chronological order lists from a getWatchOrder result
+  const WatchOrder = ({
+    releaseOrder,
+    chronologicalOrder
+  }: {
+    releaseOrder: WatchOrderEntry[];
+    chronologicalOrder: WatchOrderEntry[];
+  }) => (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {[
+        { label: "Release order", entries: releaseOrder },
+        { label: "Chronological order", entries: chronologicalOrder },
+      ].map(({ label, entries }) => (
+        <div key={label}>
+          <div className="text-sm font-medium mb-1">{label}</div>
+          <ol className="space-y-1 text-sm">
+            {entries.map((entry, idx) => (
+              <li key={`${entry.title}-${idx}`} className={entry.optional ? "text-muted-foreground" : undefined}>
+                {idx + 1}. {entry.title} ({entry.type}, {entry.year})
+                {entry.note && <div className="text-xs text-muted-foreground/80 ml-4">{entry.note}</div>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+
   const handleSubmit = (message: PromptInputMessage) => {
     const hasText = Boolean(message.text);
     const hasAttachments = Boolean(message.files?.length);
@@ -223,17 +541,47 @@ const ChatBotDemo = () => {
     setInput("");
   };
 
+  useEffect(() => {
+    loadModels();
+  }, [loadModels]);
+
   // If a pending message exists (set from main page), send it once on mount
   useEffect(() => {
     if (pendingMessage && !pendingConsumed) {
       // mark consumed immediately to avoid duplicate sends in StrictMode
       consumePendingMessage();
-      sendMessage({ text: pendingMessage }, { body: { model: model } });
+      // the route answers plain queries from the home page with its query parser, without the model
+      sendMessage({ text: pendingMessage }, { body: { model: model, fastPath: true } });
       clearPendingMessage();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [pendingMessage, pendingConsumed]);
 
+  // Fetch sparklines for series that appeared in tool results, 100 per request
+  useEffect(() => {
+    const rows = [
+      ...messages.flatMap(message => message.parts).flatMap(part =>
+        "output" in part && part.state === "output-available"
+          ? (part.output as { results?: { malId?: number | null }[] } | undefined)?.results ?? []
+          : []
+      ),
+      ...Object.values(fetchedResults).flatMap(fetched => fetched.results as { malId?: number | null }[]),
+    ];
+    const ids = Array.from(new Set(rows.map(row => row?.malId)))
+      .filter((id): id is number => typeof id === "number" && !requestedSparklines.current.has(id));
+
+    for (let i = 0; i < ids.length; i += 100) {
+      const batch = ids.slice(i, i + 100);
+      batch.forEach(id => requestedSparklines.current.add(id));
+      fetch(`/api/episodes/sparklines?ids=${batch.join(",")}`)
+        .then(response => (response.ok ? response.json() : { sparklines: {} }))
+        .then(({ sparklines: fetched }: { sparklines: Record<number, number[]> }) =>
+          setSparklines(prev => ({ ...prev, ...fetched }))
+        )
+        .catch(() => undefined);
+    }
+  }, [messages, fetchedResults]);
+
   return (
     <div className="max-w-4xl mx-auto p-6 relative size-full h-screen">
       <div className="flex flex-col h-full">
@@ -268,9 +616,7 @@ const ChatBotDemo = () => {
                 {message.parts.map((part, i) => {
                   switch (part.type) {
                     case "text":
-                      const isFollowUpAfterTool = i > 0 && message.parts.slice(0, i).some(p => 
-                        p.type === "tool-searchAnime" || p.type === "tool-filterAnime"
-                      );
+                      const isFollowUpAfterTool = i > 0 && message.parts.slice(0, i).some(p => p.type in TOOL_HEADINGS);
                       
                       return (
                         <Fragment key={`${message.id}-${i}`}>
@@ -288,7 +634,7 @@ const ChatBotDemo = () => {
                             i === message.parts.length - 1 && (
                               <Actions className="mt-2">
                                 <Action
-                                  onClick={() => regenerate()}
+                                  onClick={() => regenerate({ body: { model: model } })}
                                   label="Retry"
                                 >
                                   <RefreshCcwIcon className="size-3" />
@@ -301,6 +647,7 @@ const ChatBotDemo = () => {
                                 >
                                   <CopyIcon className="size-3" />
                                 </Action>
+                                <MessageUsage metadata={message.metadata} />
                               </Actions>
                             )}
                         </Fragment>
@@ -320,15 +667,15 @@ const ChatBotDemo = () => {
                           <ReasoningContent>{part.text}</ReasoningContent>
                         </Reasoning>
                       );
-                    case "tool-searchAnime":
-                    case "tool-filterAnime":
+                    default:
+                      if (!isToolUIPart(part) || !(part.type in TOOL_HEADINGS)) return null;
                       return (
                         <Fragment key={`${message.id}-${i}`}>
                           <Message from={message.role}>
                             <MessageContent>
                               <div className="bg-card border rounded-lg p-4 mb-4">
                                 <h4 className="font-semibold mb-2 text-base text-foreground">
-                                  {part.type === "tool-searchAnime" ? "Searching anime" : "Filtering anime"}
+                                  {TOOL_HEADINGS[part.type] ?? "Searching anime"}
                                 </h4>
                                 {part.state === "input-streaming" && (
                                   <div className="text-muted-foreground">Processing request...</div>
@@ -347,9 +694,26 @@ const ChatBotDemo = () => {
                                         <div className="font-medium mb-2 text-foreground">
                                           {(part.output as { message?: string }).message}
                                         </div>
+                                        {(part.output as { facets?: Record<string, { value: string; count: number }[]> }).facets && (
+                                          <FacetChips facets={(part.output as { facets: Record<string, { value: string; count: number }[]> }).facets} />
+                                        )}
+                                        {(part.output as { sparkline?: number[] | null }).sparkline && (
+                                          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+                                            <span>Episode scores</span>
+                                            <Sparkline points={(part.output as { sparkline: number[] }).sparkline} />
+                                          </div>
+                                        )}
+                                        {(part.output as { releaseOrder?: unknown[] }).releaseOrder && (
+                                          <WatchOrder {...(part.output as Parameters<typeof WatchOrder>[0])} />
+                                        )}
+                                        {(part.output as { excerpts?: unknown[] }).excerpts && (
+                                          <ReviewSummary {...(part.output as Parameters<typeof ReviewSummary>[0])} />
+                                        )}
                                         {(part.output as { results?: unknown[]; totalCount?: number }).results && Array.isArray((part.output as { results?: unknown[] }).results) && (
                                           <AnimeResultsPaginated 
                                             results={(part.output as { results: unknown[] }).results}
+                                            totalCount={(part.output as { totalCount?: number }).totalCount}
+                                            nextCursor={(part.output as { nextCursor?: string | null }).nextCursor}
                                             toolCallId={`${message.id}-${i}`}
                                           />
                                         )}
@@ -369,8 +733,6 @@ const ChatBotDemo = () => {
                           </Message>
                         </Fragment>
                       );
-                    default:
-                      return null;
                   }
                 })}
               </div>
@@ -2,7 +2,7 @@
 
 import { type PromptInputMessage } from "@/components/ai-elements/prompt-input";
 import PromptInputForm from "@/components/ai-elements/prompt-input-form";
-import { usePendingMessageStore } from "@/lib/store";
+import { useModelStore, usePendingMessageStore } from "@/lib/store";
 import Image from "next/image";
 import {
   Announcement,
@@ -10,19 +10,16 @@ import {
   AnnouncementTitle,
 } from "@/components/ui/shadcn-io/announcement";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
 export default function Page() {
   const router = useRouter();
   const setPendingMessage = usePendingMessageStore((s) => s.setPendingMessage);
   const [input, setInput] = useState("");
-  const models = [
-    {
-      name: "Gemini",
-      value: "google/gemini-1.5-pro",
-    },
-  ];
-  const [model, setModel] = useState<string>(models[0].value);
+  const { models, model, setModel, loadModels } = useModelStore();
+  useEffect(() => {
+    loadModels();
+  }, [loadModels]);
   // no chat status on main page; chat page will handle streaming/submitted state
 
   const handleSubmit = (message: PromptInputMessage) => {
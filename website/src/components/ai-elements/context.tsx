@@ -18,10 +18,16 @@ const ICON_VIEWBOX = 24;
 const ICON_CENTER = 12;
 const ICON_STROKE_WIDTH = 2;
 
+type ContextStep = {
+  usage: LanguageModelUsage;
+  toolNames?: string[];
+};
+
 type ContextSchema = {
   usedTokens: number;
   maxTokens: number;
   usage?: LanguageModelUsage;
+  steps?: ContextStep[];
   modelId?: ModelId;
 };
 
@@ -43,6 +49,7 @@ export const Context = ({
   usedTokens,
   maxTokens,
   usage,
+  steps,
   modelId,
   ...props
 }: ContextProps) => (
@@ -51,6 +58,7 @@ export const Context = ({
       usedTokens,
       maxTokens,
       usage,
+      steps,
       modelId,
     }}
   >
@@ -386,6 +394,46 @@ export const ContextCacheUsage = ({
   );
 };
 
+export type ContextStepsUsageProps = ComponentProps<"div">;
+
+export const ContextStepsUsage = ({
+  className,
+  children,
+  ...props
+}: ContextStepsUsageProps) => {
+  const { steps } = useContextValue();
+
+  if (children) {
+    return children;
+  }
+
+  if (!steps?.length) {
+    return null;
+  }
+
+  const format = new Intl.NumberFormat("en-US", { notation: "compact" });
+
+  return (
+    <div className={cn("space-y-1 text-xs", className)} {...props}>
+      {steps.map((step, index) => (
+        <div
+          className="flex items-center justify-between gap-3"
+          key={`step-${index}`}
+        >
+          <span className="truncate text-muted-foreground">
+            Step {index + 1}
+            {step.toolNames?.length ? ` · ${step.toolNames.join(", ")}` : ""}
+          </span>
+          <span className="shrink-0 font-mono">
+            {format.format(step.usage.inputTokens ?? 0)} in /{" "}
+            {format.format(step.usage.outputTokens ?? 0)} out
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const TokensWithCost = ({
   tokens,
   costText,
@@ -17,13 +17,14 @@ import {
   type PromptInputMessage,
 } from "@/components/ai-elements/prompt-input";
 import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
+import type { ModelOption } from "@/lib/models";
 
 type Props = {
   onSubmit: (m: PromptInputMessage) => void;
   input: string;
   setInput: (s: string) => void;
-  models: { name: string; value: string }[];
-  model: string;
+  models: ModelOption[];
+  model?: string;
   setModel: (v: string) => void;
   status?: ChatStatus;
 };
@@ -37,6 +38,15 @@ export default function PromptInputForm({
   setModel,
   status,
 }: Props) {
+  const selected = models.find((m) => m.id === model);
+  const capabilities = selected
+    ? [
+        selected.capabilities.tools ? "Searches the anime database" : "No database tools: answers from its own knowledge",
+        selected.capabilities.reasoning ? "shows its reasoning" : null,
+        `${Math.round(selected.capabilities.contextWindow / 1024)}k context`,
+      ].filter(Boolean).join(" · ")
+    : "Loading models…";
+
   return (
     <PromptInput onSubmit={onSubmit} className="mt-4" globalDrop multiple>
       <PromptInputBody>
@@ -44,18 +54,18 @@ export default function PromptInputForm({
       </PromptInputBody>
       <PromptInputToolbar>
         <PromptInputTools>
-          <PromptInputModelSelect onValueChange={(value) => setModel(value)} value={model}>
+          <PromptInputModelSelect onValueChange={(value) => setModel(value)} value={model ?? ""}>
             <Tooltip>
               <TooltipTrigger >
                 <PromptInputModelSelectTrigger>
                   <PromptInputModelSelectValue />
                 </PromptInputModelSelectTrigger>
               </TooltipTrigger>
-              <TooltipContent sideOffset={6}>Only Gemini is available for now</TooltipContent>
+              <TooltipContent sideOffset={6}>{capabilities}</TooltipContent>
             </Tooltip>
             <PromptInputModelSelectContent>
               {models.map((m) => (
-                <PromptInputModelSelectItem key={m.value} value={m.value}>
+                <PromptInputModelSelectItem key={m.id} value={m.id}>
                   {m.name}
                 </PromptInputModelSelectItem>
               ))}
@@ -0,0 +1,8 @@
+// Runs once when the server starts: load and verify the dataset so a missing
+// or corrupt dataset stops the server instead of serving empty results
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { warmUpAnimeIndex } = await import('./lib/anime');
+    await warmUpAnimeIndex();
+  }
+}
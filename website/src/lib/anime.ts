@@ -1,15 +1,20 @@
 import MiniSearch from 'minisearch';
-import { readFile } from 'fs/promises';
-import path from 'path';
+import { getAnimeStore, type AnimeStore, type SqlCondition } from './storage';
+import { computeWatchAnalytics, isDivisive, loadStatistics, type WatchStatistics } from './statistics';
+import { parseThemeSongs, type ThemeSong } from './songs';
 
 // Define the Anime interface
 export interface Anime {
+  MAL_ID: number | null;
   Title: string;
   Score: number | null;
+  Score_Count: number | null;
   Popularity: number | null;
   Rank: number | null;
   Members: number | null;
+  Favorites: number | null;
   Description: string;
+  Background: string;
   Synonyms: string;
   Japanese: string;
   English: string;
@@ -24,11 +29,49 @@ export interface Anime {
   Studios: string;
   Source: string;
   Genres: string;
+  Themes: string;
   Demographic: string;
   Duration: string;
   Rating: string;
+  Opening_Themes: string;
+  Ending_Themes: string;
+
+  // Normalized fields derived from the raw strings above by loadAnimeData
+  airedFrom: string | null; // ISO date (YYYY-MM-DD)
+  airedTo: string | null; // ISO date, same as airedFrom for one-off releases
+  season: Season | null;
+  seasonYear: number | null;
+  broadcastDay: Weekday | null;
+  broadcastTime: string | null; // HH:mm in JST
+  minutesPerEpisode: number | null;
+  totalRuntimeMinutes: number | null;
+  genres: string[];
+  themes: string[];
+  studios: string[];
+  producers: string[];
+  themeSongs: ThemeSong[]; // openings, then endings
+  artists: string[]; // theme song performers
+  imageUrl: string | null;
+  trailerUrl: string | null;
+  externalLinks: ExternalLink[];
+
+  // Watch-status analytics, null until the statistics export has been ingested
+  watchStatistics: WatchStatistics | null;
+  completionRate: number | null; // % of users who started it and completed it
+  dropRate: number | null; // % of users who started it and dropped it
+  scoreStdDev: number | null; // spread of the user score histogram
+  polarization: number | null; // 0-1; 1 = votes split evenly between 1-4 and 9-10
+}
+
+export interface ExternalLink {
+  title: string;
+  url: string;
 }
 
+export type Season = 'Winter' | 'Spring' | 'Summer' | 'Fall';
+
+export type Weekday = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
+
 // Range filter type for numeric values
 export interface RangeFilter {
   min?: number;
@@ -52,10 +95,17 @@ export interface TextFilter {
   caseSensitive?: boolean;
 }
 
+// How a categorical filter value is compared against the data (case-insensitive):
+// exact = whole value, prefix = start of value, substring = anywhere in value,
+// alias = exact after resolving spelling variants and aliases (e.g. 'shonen', 'sci fi')
+export type MatchMode = 'exact' | 'prefix' | 'substring' | 'alias';
+
 // Multi-select filter for categorical values
 export interface MultiSelectFilter {
-  values: string[];
-  matchAny?: boolean; // true = OR logic, false = AND logic
+  values?: string[]; // values to include; omit to only exclude
+  exclude?: string[]; // anime matching any of these are dropped
+  matchAny?: boolean; // true = OR logic, false = AND logic (for included values)
+  matchMode?: MatchMode; // default: 'substring'
 }
 
 // Date range filter
@@ -64,12 +114,34 @@ export interface DateRangeFilter {
   end?: string;
 }
 
-// Sort options
+// Sort options ('_relevance' is the search score, with ties broken by popularity)
 export interface SortOption {
-  field: keyof Anime;
+  field: keyof RankedAnime;
   direction: 'asc' | 'desc';
 }
 
+// Anime with the relevance score of the text search that matched it
+export type RankedAnime = Anime & {
+  _relevance: number | null;
+};
+
+// Fields that facet counts can be requested for, named like their AnimeFilters keys
+export type FacetField = 'genres' | 'themes' | 'type' | 'status' | 'demographic' | 'source' | 'rating' | 'studios' | 'artists' | 'year';
+
+// Facet counts to compute for the whole result set (before pagination)
+export interface FacetRequest {
+  fields: FacetField[];
+  limit?: number; // values per facet, most common first (default: 10)
+  yearBucketSize?: number; // years per bucket: 10 = '2010s', 1 = '2016', 5 = '2015-2019' (default: 10)
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type AnimeFacets = Partial<Record<FacetField, FacetCount[]>>;
+
 // Complete filter configuration
 export interface AnimeFilters {
   // Text-based fuzzy search
@@ -80,21 +152,33 @@ export interface AnimeFilters {
   popularity?: NumericFilter | RangeFilter;
   rank?: NumericFilter | RangeFilter;
   members?: NumericFilter | RangeFilter;
+  favorites?: NumericFilter | RangeFilter;
+  scoreCount?: NumericFilter | RangeFilter;
   episodes?: NumericFilter | RangeFilter;
+  minutesPerEpisode?: NumericFilter | RangeFilter;
+  totalRuntimeMinutes?: NumericFilter | RangeFilter;
+  completionRate?: NumericFilter | RangeFilter;
+  dropRate?: NumericFilter | RangeFilter;
+  scoreStdDev?: NumericFilter | RangeFilter;
+  polarization?: NumericFilter | RangeFilter;
+  divisive?: boolean; // widely spread scores with many votes at both ends of the scale
   
   // Categorical filters
   type?: MultiSelectFilter | string[];
   status?: MultiSelectFilter | string[];
   genres?: MultiSelectFilter | string[];
+  themes?: MultiSelectFilter | string[];
   demographic?: MultiSelectFilter | string[];
   studios?: MultiSelectFilter | string[];
   producers?: MultiSelectFilter | string[];
   source?: MultiSelectFilter | string[];
   rating?: MultiSelectFilter | string[];
+  artists?: MultiSelectFilter | string[]; // theme song performers
   
   // Date filters
   aired?: DateRangeFilter;
-  premiered?: MultiSelectFilter | string[];
+  premiered?: MultiSelectFilter | string[]; // e.g. 'Spring 2016', 'Fall' or '2016'
+  broadcastDay?: MultiSelectFilter | string[];
   
   // Text filters for specific fields
   title?: TextFilter;
@@ -102,33 +186,79 @@ export interface AnimeFilters {
   japanese?: TextFilter;
   description?: TextFilter;
   
+  // Boolean groups, combined with the fields above using AND logic
+  // (sorting and pagination are ignored inside groups)
+  and?: AnimeFilters[]; // every group must match
+  or?: AnimeFilters[]; // at least one group must match
+  not?: AnimeFilters; // the group must not match
+  
   // Sorting
   sort?: SortOption[];
   
   // Pagination
   limit?: number;
   offset?: number;
+  
+  // Facet counts for the matched results
+  facets?: FacetRequest | FacetField[];
+}
+
+// Relevance is compared at two decimals, so near-identical scores count as ties
+const roundRelevance = (score: number): number => Math.round(score * 100) / 100;
+
+// Whether any search (including inside boolean groups) contributes relevance scores
+function hasSearch(filters: AnimeFilters): boolean {
+  return Boolean(filters.search)
+    || Boolean(filters.and?.some(hasSearch))
+    || Boolean(filters.or?.some(hasSearch));
+}
+
+// Compare by relevance, breaking ties with a popularity prior (lower Popularity = more popular)
+function compareRelevance(a: Anime, b: Anime, relevance: Map<Anime, number>): number {
+  const comparison = roundRelevance(relevance.get(a) ?? 0) - roundRelevance(relevance.get(b) ?? 0);
+  if (comparison !== 0) return comparison;
+
+  const aPopularity = a.Popularity ?? Number.POSITIVE_INFINITY;
+  const bPopularity = b.Popularity ?? Number.POSITIVE_INFINITY;
+  if (aPopularity === bPopularity) return 0;
+  return aPopularity < bPopularity ? 1 : -1;
+}
+
+// Normalized list fields that multi-value filters match against
+type AnimeListField = 'genres' | 'themes' | 'studios' | 'producers' | 'artists';
+
+// Fields whose vocabulary resolves aliases; artists have none, so they are matched as given
+const LIST_FIELD_SOURCES: Record<AnimeListField, keyof Anime> = {
+  genres: 'Genres',
+  themes: 'Themes',
+  studios: 'Studios',
+  producers: 'Producers',
+  artists: 'artists',
+};
+
+// A categorical filter's parts with their defaults; a plain array includes any of its values
+export function toSelection(filter: MultiSelectFilter | string[]): Required<MultiSelectFilter> {
+  return Array.isArray(filter)
+    ? { values: filter, exclude: [], matchAny: true, matchMode: 'substring' }
+    : {
+        values: filter.values ?? [],
+        exclude: filter.exclude ?? [],
+        matchAny: filter.matchAny ?? true,
+        matchMode: filter.matchMode ?? 'substring',
+      };
 }
 
 // Filter context for chaining operations
 export class AnimeFilterContext {
   private data: Anime[];
-  private miniSearch: MiniSearch<Anime>;
+  private relevance: Map<Anime, number>;
+  private facets: AnimeFacets | null;
+  private miniSearch?: MiniSearch<Anime>;
 
-  constructor(initialData: Anime[]) {
+  constructor(initialData: Anime[], relevance: Map<Anime, number> = new Map(), facets: AnimeFacets | null = null) {
     this.data = initialData;
-    this.miniSearch = new MiniSearch({
-      fields: ['Title', 'English', 'Japanese', 'Description', 'Synonyms'],
-      storeFields: ['Title', 'English', 'Japanese', 'Description'],
-      searchOptions: {
-        boost: { Title: 2, English: 2 },
-        fuzzy: 0.2,
-        prefix: true
-      }
-    });
-    
-    // Index the data for search
-    this.miniSearch.addAll(initialData.map((anime, index) => ({ ...anime, id: index })));
+    this.relevance = relevance;
+    this.facets = facets;
   }
 
   // Get current filtered data
@@ -136,19 +266,92 @@ export class AnimeFilterContext {
     return this.data;
   }
 
+  // Get current filtered data with search relevance attached as `_relevance`
+  getRankedData(): RankedAnime[] {
+    return this.data.map(anime => ({ ...anime, _relevance: this.getRelevance(anime) }));
+  }
+
+  // Facet counts requested by the filter that produced this context
+  getFacets(): AnimeFacets | null {
+    return this.facets;
+  }
+
+  // Search relevance of an anime in this context, or null when no search matched it
+  getRelevance(anime: Anime): number | null {
+    const score = this.relevance.get(anime);
+    return score === undefined ? null : roundRelevance(score);
+  }
+
+  // Build the search index ahead of the first text search
+  warmUp(): AnimeFilterContext {
+    this.getSearchIndex();
+    return this;
+  }
+
+  // The search index is built lazily, since most filter results are never searched again
+  private getSearchIndex(): MiniSearch<Anime> {
+    if (!this.miniSearch) {
+      this.miniSearch = new MiniSearch({
+        fields: ['Title', 'English', 'Japanese', 'Description', 'Synonyms'],
+        storeFields: ['Title', 'English', 'Japanese', 'Description'],
+        searchOptions: {
+          boost: { Title: 2, English: 2 },
+          fuzzy: 0.2,
+          prefix: true
+        }
+      });
+      
+      // Index the data for search
+      this.miniSearch.addAll(this.data.map((anime, index) => ({ ...anime, id: index })));
+    }
+    return this.miniSearch;
+  }
+
   // Apply filters and return new context
   filter(filters: AnimeFilters): AnimeFilterContext {
-    let filteredData = [...this.data];
+    // Scores from earlier searches carry over, new searches add to them
+    const relevance = new Map(this.relevance);
+    let filteredData = this.applyCriteria([...this.data], filters, relevance);
+
+    // Apply sorting, defaulting to relevance order when searching
+    if (filters.sort && filters.sort.length > 0) {
+      filteredData = this.applySorting(filteredData, filters.sort, relevance);
+    } else if (hasSearch(filters)) {
+      filteredData = this.applySorting(filteredData, [{ field: '_relevance', direction: 'desc' }], relevance);
+    }
+
+    // Facets describe the whole result set, so they are counted before pagination
+    const facets = filters.facets ? computeFacets(filteredData, filters.facets) : null;
+
+    // Apply pagination
+    if (filters.offset !== undefined || filters.limit !== undefined) {
+      const offset = filters.offset || 0;
+      const limit = filters.limit;
+      filteredData = filteredData.slice(offset, limit ? offset + limit : undefined);
+    }
+
+    return new AnimeFilterContext(filteredData, relevance, facets);
+  }
+
+  // Apply every matching criterion (including nested boolean groups) to the data, adding search
+  // scores to the relevance map once the whole group has matched; `not` groups never add any
+  private applyCriteria(data: Anime[], filters: AnimeFilters, relevance: Map<Anime, number>): Anime[] {
+    let filteredData = data;
+    const scores = new Map<Anime, number>();
 
     // Apply fuzzy search first if provided
     if (filters.search) {
-      const searchResults = this.miniSearch.search(filters.search.query, {
+      const searchResults = this.getSearchIndex().search(filters.search.query, {
         fuzzy: !filters.search.exact ? 0.2 : false,
         prefix: !filters.search.exact
       });
       
-      const searchIds = new Set(searchResults.map((result: { id: number }) => result.id));
-      filteredData = filteredData.filter((_, index) => searchIds.has(index));
+      // Match by identity so the search also works on subsets inside groups
+      const searchScores = new Map(searchResults.map((result: { id: number; score: number }) => [this.data[result.id], result.score]));
+      filteredData = filteredData.filter(anime => searchScores.has(anime));
+      for (const anime of filteredData) {
+        scores.set(anime, searchScores.get(anime)!);
+      }
     }
 
     // Apply text filters for specific fields
@@ -178,9 +381,36 @@ export class AnimeFilterContext {
     if (filters.members) {
       filteredData = this.applyNumericFilter(filteredData, 'Members', filters.members);
     }
+    if (filters.favorites) {
+      filteredData = this.applyNumericFilter(filteredData, 'Favorites', filters.favorites);
+    }
+    if (filters.scoreCount) {
+      filteredData = this.applyNumericFilter(filteredData, 'Score_Count', filters.scoreCount);
+    }
     if (filters.episodes) {
       filteredData = this.applyNumericFilter(filteredData, 'Episodes', filters.episodes);
     }
+    if (filters.minutesPerEpisode) {
+      filteredData = this.applyNumericFilter(filteredData, 'minutesPerEpisode', filters.minutesPerEpisode);
+    }
+    if (filters.totalRuntimeMinutes) {
+      filteredData = this.applyNumericFilter(filteredData, 'totalRuntimeMinutes', filters.totalRuntimeMinutes);
+    }
+    if (filters.completionRate) {
+      filteredData = this.applyNumericFilter(filteredData, 'completionRate', filters.completionRate);
+    }
+    if (filters.dropRate) {
+      filteredData = this.applyNumericFilter(filteredData, 'dropRate', filters.dropRate);
+    }
+    if (filters.scoreStdDev) {
+      filteredData = this.applyNumericFilter(filteredData, 'scoreStdDev', filters.scoreStdDev);
+    }
+    if (filters.polarization) {
+      filteredData = this.applyNumericFilter(filteredData, 'polarization', filters.polarization);
+    }
+    if (filters.divisive !== undefined) {
+      filteredData = filteredData.filter(anime => isDivisive(anime) === filters.divisive);
+    }
 
     // Apply categorical filters
     if (filters.type) {
@@ -190,16 +420,19 @@ export class AnimeFilterContext {
       filteredData = this.applyCategoricalFilter(filteredData, 'Status', filters.status);
     }
     if (filters.genres) {
-      filteredData = this.applyMultiValueFilter(filteredData, 'Genres', filters.genres);
+      filteredData = this.applyMultiValueFilter(filteredData, 'genres', filters.genres);
+    }
+    if (filters.themes) {
+      filteredData = this.applyMultiValueFilter(filteredData, 'themes', filters.themes);
     }
     if (filters.demographic) {
       filteredData = this.applyCategoricalFilter(filteredData, 'Demographic', filters.demographic);
     }
     if (filters.studios) {
-      filteredData = this.applyMultiValueFilter(filteredData, 'Studios', filters.studios);
+      filteredData = this.applyMultiValueFilter(filteredData, 'studios', filters.studios);
     }
     if (filters.producers) {
-      filteredData = this.applyMultiValueFilter(filteredData, 'Producers', filters.producers);
+      filteredData = this.applyMultiValueFilter(filteredData, 'producers', filters.producers);
     }
     if (filters.source) {
       filteredData = this.applyCategoricalFilter(filteredData, 'Source', filters.source);
@@ -207,8 +440,14 @@ export class AnimeFilterContext {
     if (filters.rating) {
       filteredData = this.applyCategoricalFilter(filteredData, 'Rating', filters.rating);
     }
+    if (filters.artists) {
+      filteredData = this.applyMultiValueFilter(filteredData, 'artists', filters.artists);
+    }
     if (filters.premiered) {
-      filteredData = this.applyCategoricalFilter(filteredData, 'Premiered', filters.premiered);
+      filteredData = this.applySeasonFilter(filteredData, filters.premiered);
+    }
+    if (filters.broadcastDay) {
+      filteredData = this.applyCategoricalFilter(filteredData, 'broadcastDay', filters.broadcastDay);
     }
 
     // Apply date filters
@@ -216,19 +455,27 @@ export class AnimeFilterContext {
       filteredData = this.applyDateFilter(filteredData, filters.aired);
     }
 
-    // Apply sorting
-    if (filters.sort && filters.sort.length > 0) {
-      filteredData = this.applySorting(filteredData, filters.sort);
+    // Apply boolean groups
+    if (filters.and) {
+      for (const group of filters.and) {
+        filteredData = this.applyCriteria(filteredData, group, scores);
+      }
     }
-
-    // Apply pagination
-    if (filters.offset !== undefined || filters.limit !== undefined) {
-      const offset = filters.offset || 0;
-      const limit = filters.limit;
-      filteredData = filteredData.slice(offset, limit ? offset + limit : undefined);
+    if (filters.or && filters.or.length > 0) {
+      const current = filteredData;
+      const matched = new Set(filters.or.flatMap(group => this.applyCriteria(current, group, scores)));
+      filteredData = filteredData.filter(anime => matched.has(anime));
+    }
+    if (filters.not) {
+      const excluded = new Set(this.applyCriteria(filteredData, filters.not, new Map()));
+      filteredData = filteredData.filter(anime => !excluded.has(anime));
     }
 
-    return new AnimeFilterContext(filteredData);
+    for (const anime of filteredData) {
+      const score = scores.get(anime);
+      if (score !== undefined) relevance.set(anime, (relevance.get(anime) ?? 0) + score);
+    }
+    return filteredData;
   }
 
   private applyTextFilter(data: Anime[], field: keyof Anime, filter: TextFilter): Anime[] {
@@ -285,74 +532,107 @@ export class AnimeFilterContext {
     field: keyof Anime, 
     filter: MultiSelectFilter | string[]
   ): Anime[] {
-    const values = Array.isArray(filter) ? filter : filter.values;
-    const matchAny = Array.isArray(filter) ? true : (filter.matchAny ?? true);
+    const { included, excluded, matchAny } = this.createMatchers(field, filter);
 
     return data.filter(anime => {
       const fieldValue = anime[field]?.toString() || '';
       
+      if (excluded.some(matches => matches(fieldValue))) return false;
+      if (included.length === 0) return true;
       if (matchAny) {
-        return values.some(value => fieldValue.toLowerCase().includes(value.toLowerCase()));
+        return included.some(matches => matches(fieldValue));
       } else {
-        return values.every(value => fieldValue.toLowerCase().includes(value.toLowerCase()));
+        return included.every(matches => matches(fieldValue));
       }
     });
   }
 
   private applyMultiValueFilter(
     data: Anime[], 
-    field: keyof Anime, 
+    field: AnimeListField, 
     filter: MultiSelectFilter | string[]
   ): Anime[] {
-    const values = Array.isArray(filter) ? filter : filter.values;
-    const matchAny = Array.isArray(filter) ? true : (filter.matchAny ?? true);
+    const { included, excluded, matchAny } = this.createMatchers(LIST_FIELD_SOURCES[field], filter);
 
     return data.filter(anime => {
-      const fieldValue = anime[field]?.toString() || '';
-      const fieldItems = fieldValue.split(',').map(item => item.trim().toLowerCase());
+      const fieldItems = anime[field];
       
+      if (excluded.some(matches => fieldItems.some(matches))) return false;
+      if (included.length === 0) return true;
       if (matchAny) {
-        return values.some(value => 
-          fieldItems.some(item => item.includes(value.toLowerCase()))
-        );
+        return included.some(matches => fieldItems.some(matches));
       } else {
-        return values.every(value => 
-          fieldItems.some(item => item.includes(value.toLowerCase()))
-        );
+        return included.every(matches => fieldItems.some(matches));
       }
     });
   }
 
-  private applyDateFilter(data: Anime[], filter: DateRangeFilter): Anime[] {
+  // One predicate per included and excluded value, so aliases are resolved once per filter
+  private createMatchers(field: keyof Anime, filter: MultiSelectFilter | string[]): {
+    included: Array<(fieldValue: string) => boolean>;
+    excluded: Array<(fieldValue: string) => boolean>;
+    matchAny: boolean;
+  } {
+    const { values, exclude, matchAny, matchMode } = toSelection(filter);
+    const vocabulary = matchMode === 'alias' ? getVocabulary(this.data) : undefined;
+
+    return {
+      included: values.map(value => createValueMatcher(value, matchMode, field, vocabulary)),
+      excluded: exclude.map(value => createValueMatcher(value, matchMode, field, vocabulary)),
+      matchAny,
+    };
+  }
+
+  private applySeasonFilter(data: Anime[], filter: MultiSelectFilter | string[]): Anime[] {
+    const { values, exclude, matchAny } = toSelection(filter);
+
+    // Each value may name a season, a year or both, e.g. 'Spring 2016', 'Fall' or '2016'
+    const matchesValue = (anime: Anime, value: string): boolean => {
+      const season = value.match(/winter|spring|summer|fall/i)?.[0].toLowerCase();
+      const year = value.match(/\d{4}/)?.[0];
+      if (!season && !year) return false;
+      if (season && anime.season?.toLowerCase() !== season) return false;
+      if (year && anime.seasonYear !== parseInt(year, 10)) return false;
+      return true;
+    };
+
     return data.filter(anime => {
-      const airedValue = anime.Aired;
-      if (!airedValue) return false;
+      if (exclude.some(value => matchesValue(anime, value))) return false;
+      if (values.length === 0) return true;
+      return matchAny
+        ? values.some(value => matchesValue(anime, value))
+        : values.every(value => matchesValue(anime, value));
+    });
+  }
 
-      // Extract year from aired date (basic implementation)
-      const yearMatch = airedValue.match(/\d{4}/);
-      if (!yearMatch) return false;
-      
-      const year = parseInt(yearMatch[0]);
-      
-      if (filter.start) {
-        const startYear = parseInt(filter.start);
-        if (year < startYear) return false;
-      }
-      
-      if (filter.end) {
-        const endYear = parseInt(filter.end);
-        if (year > endYear) return false;
-      }
-      
+  private applyDateFilter(data: Anime[], filter: DateRangeFilter): Anime[] {
+    const start = filter.start ? toDateBound(filter.start, 'start') : null;
+    const end = filter.end ? toDateBound(filter.end, 'end') : null;
+
+    return data.filter(anime => {
+      // ISO dates compare correctly as strings
+      if (!anime.airedFrom) return false;
+      if (start && anime.airedFrom < start) return false;
+      if (end && anime.airedFrom > end) return false;
       return true;
     });
   }
 
-  private applySorting(data: Anime[], sortOptions: SortOption[]): Anime[] {
+  private applySorting(data: Anime[], sortOptions: SortOption[], relevance: Map<Anime, number>): Anime[] {
     return [...data].sort((a, b) => {
       for (const sort of sortOptions) {
-        const aVal = a[sort.field];
-        const bVal = b[sort.field];
+        if (sort.field === '_relevance') {
+          const comparison = compareRelevance(a, b, relevance);
+          if (comparison !== 0) {
+            return sort.direction === 'asc' ? comparison : -comparison;
+          }
+          continue;
+        }
+
+        // Sort air dates by the parsed start date rather than the raw MAL string
+        const field = sort.field === 'Aired' ? 'airedFrom' : sort.field;
+        const aVal = a[field];
+        const bVal = b[field];
         
         // Handle null values
         if (aVal === null && bVal === null) continue;
@@ -375,6 +655,109 @@ export class AnimeFilterContext {
   }
 }
 
+// Helper functions to derive the normalized Anime fields from raw MAL strings
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const SEASONS: Season[] = ['Winter', 'Spring', 'Summer', 'Fall'];
+const WEEKDAYS: Weekday[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+// Parse "Apr 3, 2016", "Apr 2016" or "2016" into an ISO date
+export function parseMalDate(value: string): string | null {
+  const match = value.trim().match(/^(?:([A-Za-z]{3})[a-z]*\.?\s+)?(?:(\d{1,2}),?\s+)?(\d{4})$/);
+  if (!match) return null;
+
+  const month = match[1] ? MONTHS.indexOf(match[1].toLowerCase()) + 1 : 1;
+  if (month === 0) return null;
+  const day = match[2] ? parseInt(match[2], 10) : 1;
+
+  return `${match[3]}-${pad(month)}-${pad(day)}`;
+}
+
+// Parse "Apr 3, 2016 to Jun 26, 2016" into start and end dates
+function parseAired(aired: string): { airedFrom: string | null; airedTo: string | null } {
+  const [from, to] = aired.split(/\s+to\s+/i);
+  const airedFrom = from ? parseMalDate(from) : null;
+  const airedTo = to === undefined ? airedFrom : parseMalDate(to);
+  return { airedFrom, airedTo };
+}
+
+// Parse "Spring 2016", falling back to the month the show started airing
+function parseSeason(premiered: string, aired: string, airedFrom: string | null): { season: Season | null; seasonYear: number | null } {
+  const match = premiered.match(/(winter|spring|summer|fall)\s+(\d{4})/i);
+  if (match) {
+    const season = SEASONS.find(s => s.toLowerCase() === match[1].toLowerCase()) ?? null;
+    return { season, seasonYear: parseInt(match[2], 10) };
+  }
+
+  // Only trust the fallback when the air date actually names a month
+  if (airedFrom && /^[A-Za-z]{3}/.test(aired.trim())) {
+    const month = parseInt(airedFrom.slice(5, 7), 10);
+    return { season: SEASONS[Math.floor((month - 1) / 3)], seasonYear: parseInt(airedFrom.slice(0, 4), 10) };
+  }
+
+  return { season: null, seasonYear: null };
+}
+
+// Parse "Saturdays at 01:30 (JST)" into a weekday and a JST time
+function parseBroadcast(broadcast: string): { broadcastDay: Weekday | null; broadcastTime: string | null } {
+  const match = broadcast.match(/^(mon|tues|wednes|thurs|fri|satur|sun)days?(?:\s+at\s+(\d{1,2}):(\d{2}))?/i);
+  if (!match) return { broadcastDay: null, broadcastTime: null };
+
+  const broadcastDay = WEEKDAYS.find(day => day.toLowerCase().startsWith(match[1].toLowerCase())) ?? null;
+  const broadcastTime = match[2] ? `${pad(parseInt(match[2], 10))}:${match[3]}` : null;
+  return { broadcastDay, broadcastTime };
+}
+
+// Parse "24 min. per ep.", "1 hr. 55 min." or "30 sec." into minutes
+function parseDuration(duration: string): number | null {
+  const hours = duration.match(/(\d+)\s*hr/i);
+  const minutes = duration.match(/(\d+)\s*min/i);
+  const seconds = duration.match(/(\d+)\s*sec/i);
+  if (!hours && !minutes && !seconds) return null;
+
+  const total = (hours ? parseInt(hours[1], 10) * 60 : 0)
+    + (minutes ? parseInt(minutes[1], 10) : 0)
+    + (seconds ? parseInt(seconds[1], 10) / 60 : 0);
+  return Math.round(total * 100) / 100;
+}
+
+// Turn a date filter bound ('2016', '2016-04' or '2016-04-03') into an inclusive ISO bound
+function toDateBound(value: string, edge: 'start' | 'end'): string | null {
+  const match = value.trim().match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/);
+  if (!match) return null;
+
+  const month = match[2] ? pad(parseInt(match[2], 10)) : edge === 'start' ? '01' : '12';
+  const day = match[3] ? pad(parseInt(match[3], 10)) : edge === 'start' ? '01' : '31';
+  return `${match[1]}-${month}-${day}`;
+}
+
+const toList = (fieldValue: string): string[] =>
+  fieldValue.split(',').map(item => item.trim()).filter(item => item !== '');
+
+// MAL uses 'N/A' for missing URLs
+export function toUrl(value: unknown): string | null {
+  return typeof value === 'string' && /^https?:\/\//.test(value.trim()) ? value.trim() : null;
+}
+
+// External links arrive as a list of { title, url }, or as its JSON encoding in hand-converted datasets
+function toLinks(value: unknown): ExternalLink[] {
+  let links = value;
+  if (typeof links === 'string') {
+    try {
+      links = JSON.parse(links);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(links)) return [];
+
+  return links.flatMap(link => {
+    const url = toUrl(link?.url);
+    return url ? [{ title: String(link.title ?? url), url }] : [];
+  });
+}
+
 // Helper function to clean up duplicated values in comma-separated fields
 // e.g., "AdventureAdventure,ComedyComedy" -> "Adventure,Comedy"
 function cleanCommaSeparatedField(fieldValue: string): string {
@@ -415,57 +798,179 @@ function cleanCommaSeparatedField(fieldValue: string): string {
   return Array.from(cleanedItems).join(', ');
 }
 
-// Utility functions for loading and filtering anime data
+type StatisticsRows = Awaited<ReturnType<typeof loadStatistics>>;
+
+// Process-wide dataset cache, invalidated when the stored anime or the statistics they are joined with change
+let datasetCache: { store: AnimeStore; version: number; statistics: StatisticsRows; data: Anime[] } | null = null;
+let pendingLoad: { store: AnimeStore; version: number; statistics: StatisticsRows; promise: Promise<Anime[]> } | null = null;
+
+// Filter contexts keyed by the array they wrap, so repeated filters over the
+// same dataset reuse one search index
+const filterContexts = new WeakMap<Anime[], AnimeFilterContext>();
+
+// Read and normalize the stored anime, joining the watch statistics by MAL id
+async function readAnimeData(store: AnimeStore, statistics: StatisticsRows): Promise<Anime[]> {
+  const rawData = await store.readRows();
+
+  const statisticsById = new Map(
+    (statistics ?? []).filter(row => row.malId !== null).map(row => [row.malId, row.statistics])
+  );
+
+  // Transform string numbers to actual numbers and ensure required fields
+  return rawData.map((item): Anime => {
+    const base = {
+      Title: (item.Title as string) ?? '',
+      Description: (item.Description as string) ?? '',
+      Background: (item.Background as string) ?? '',
+      Synonyms: (item.Synonyms as string) ?? '',
+      Japanese: (item.Japanese as string) ?? '',
+      English: (item.English as string) ?? '',
+      Type: (item.Type as string) ?? '',
+      Status: (item.Status as string) ?? '',
+      Aired: (item.Aired as string) ?? '',
+      Premiered: (item.Premiered as string) ?? '',
+      Broadcast: (item.Broadcast as string) ?? '',
+      Producers: cleanCommaSeparatedField((item.Producers as string) ?? ''),
+      Licensors: (item.Licensors as string) ?? '',
+      Studios: cleanCommaSeparatedField((item.Studios as string) ?? ''),
+      Source: (item.Source as string) ?? '',
+      Genres: cleanCommaSeparatedField((item.Genres as string) ?? ''),
+      Themes: cleanCommaSeparatedField((item.Themes as string) ?? ''),
+      Demographic: (item.Demographic as string) ?? '',
+      Duration: (item.Duration as string) ?? '',
+      Rating: (item.Rating as string) ?? '',
+      Opening_Themes: (item.Opening_Themes as string) ?? '',
+      Ending_Themes: (item.Ending_Themes as string) ?? '',
+    };
+
+    const toNumber = (v: unknown): number | null => {
+      if (v === null || v === undefined) return null;
+      if (typeof v === 'number') return v;
+      const s = String(v).trim();
+      if (s === '') return null;
+      const n = Number(s.replace(/,/g, ''));
+      return Number.isNaN(n) ? null : n;
+    };
+
+    const malId = toNumber(item.MAL_ID);
+    const episodes = toNumber(item.Episodes);
+    const { airedFrom, airedTo } = parseAired(base.Aired);
+    const watchStatistics = (malId !== null ? statisticsById.get(malId) : undefined) ?? null;
+    const analytics = watchStatistics ? computeWatchAnalytics(watchStatistics) : null;
+    const minutesPerEpisode = parseDuration(base.Duration);
+    const themeSongs = [
+      ...parseThemeSongs(base.Opening_Themes, 'opening'),
+      ...parseThemeSongs(base.Ending_Themes, 'ending'),
+    ];
+
+    return {
+      ...base,
+      MAL_ID: malId,
+      Score: toNumber(item.Score),
+      Score_Count: toNumber(item.Score_Count),
+      Popularity: toNumber(item.Popularity),
+      Rank: toNumber(item.Rank),
+      Members: toNumber(item.Members),
+      Favorites: toNumber(item.Favorites),
+      Episodes: episodes,
+      airedFrom,
+      airedTo,
+      ...parseSeason(base.Premiered, base.Aired, airedFrom),
+      ...parseBroadcast(base.Broadcast),
+      minutesPerEpisode,
+      totalRuntimeMinutes: minutesPerEpisode !== null && episodes !== null
+        ? Math.round(minutesPerEpisode * episodes * 100) / 100
+        : null,
+      genres: toList(base.Genres),
+      themes: toList(base.Themes),
+      studios: toList(base.Studios),
+      producers: toList(base.Producers),
+      themeSongs,
+      artists: Array.from(new Set(themeSongs.flatMap(song => song.artists))),
+      imageUrl: toUrl(item.Image_URL),
+      trailerUrl: toUrl(item.Trailer_URL),
+      externalLinks: toLinks(item.External_Links),
+      watchStatistics,
+      completionRate: analytics?.completionRate ?? null,
+      dropRate: analytics?.dropRate ?? null,
+      scoreStdDev: analytics?.scoreStdDev ?? null,
+      polarization: analytics?.polarization ?? null,
+    };
+  });
+}
+
+// Utility functions for loading and filtering anime data.
+// Throws when the dataset is missing or corrupt rather than serving an empty one
 export async function loadAnimeData(): Promise<Anime[]> {
   try {
-    const filePath = path.join(process.cwd(), 'src', 'lib', 'anime-data.json');
-    const raw = await readFile(filePath, 'utf-8');
-    const rawData = JSON.parse(raw) as Array<Record<string, unknown>>;
-
-    // Transform string numbers to actual numbers and ensure required fields
-    return rawData.map((item): Anime => {
-      const base = {
-        Title: (item.Title as string) ?? '',
-        Description: (item.Description as string) ?? '',
-        Synonyms: (item.Synonyms as string) ?? '',
-        Japanese: (item.Japanese as string) ?? '',
-        English: (item.English as string) ?? '',
-        Type: (item.Type as string) ?? '',
-        Status: (item.Status as string) ?? '',
-        Aired: (item.Aired as string) ?? '',
-        Premiered: (item.Premiered as string) ?? '',
-        Broadcast: (item.Broadcast as string) ?? '',
-        Producers: cleanCommaSeparatedField((item.Producers as string) ?? ''),
-        Licensors: (item.Licensors as string) ?? '',
-        Studios: cleanCommaSeparatedField((item.Studios as string) ?? ''),
-        Source: (item.Source as string) ?? '',
-        Genres: cleanCommaSeparatedField((item.Genres as string) ?? ''),
-        Demographic: (item.Demographic as string) ?? '',
-        Duration: (item.Duration as string) ?? '',
-        Rating: (item.Rating as string) ?? '',
-      };
+    const store = getAnimeStore();
+    const version = await store.getVersion();
 
-      const toNumber = (v: unknown): number | null => {
-        if (v === null || v === undefined) return null;
-        if (typeof v === 'number') return v;
-        const s = String(v).trim();
-        if (s === '') return null;
-        const n = Number(s.replace(/,/g, ''));
-        return Number.isNaN(n) ? null : n;
-      };
+    // The statistics loader returns the same rows until its own file changes
+    const statistics = await loadStatistics();
 
-      return {
-        ...base,
-        Score: toNumber(item.Score),
-        Popularity: toNumber(item.Popularity),
-        Rank: toNumber(item.Rank),
-        Members: toNumber(item.Members),
-        Episodes: toNumber(item.Episodes),
-      } as Anime;
-    });
+    const isCurrent = (entry: { store: AnimeStore; version: number; statistics: StatisticsRows } | null): boolean =>
+      entry !== null && entry.store === store && entry.version === version && entry.statistics === statistics;
+
+    if (datasetCache && isCurrent(datasetCache)) {
+      return datasetCache.data;
+    }
+
+    // Share one read between concurrent callers
+    if (!pendingLoad || !isCurrent(pendingLoad)) {
+      pendingLoad = { store, version, statistics, promise: readAnimeData(store, statistics) };
+    }
+
+    const load = pendingLoad;
+    try {
+      const data = await load.promise;
+      datasetCache = { store, version, statistics, data };
+      return data;
+    } finally {
+      if (pendingLoad === load) pendingLoad = null;
+    }
   } catch (error) {
     console.error('[loadAnimeData] Failed to load anime data:', error);
-    return [];
+    throw error;
+  }
+}
+
+// Filter the whole dataset through the configured store. Stores that evaluate filters themselves (SQLite)
+// narrow the candidates and run the text search; the in-memory engine then applies the exact filters,
+// sorting, facets and pagination. Conditions are extra SQL on the anime row and need such a store
+export async function filterAnimeFromStore(filters: AnimeFilters, conditions: SqlCondition[] = []): Promise<AnimeFilterContext> {
+  const data = await loadAnimeData();
+  const store = getAnimeStore();
+
+  const matches = store.query ? await store.query(filters, conditions) : null;
+  if (!matches) {
+    if (conditions.length > 0) {
+      throw new Error(`SQL conditions need the sqlite storage backend (ANIME_STORAGE is ${store.backend})`);
+    }
+    return createFilterChain(data).filter(filters);
+  }
+
+  const candidates = data.filter(anime => anime.MAL_ID !== null && matches.ids.has(anime.MAL_ID));
+  if (!matches.searched) {
+    return new AnimeFilterContext(candidates).filter(filters);
+  }
+
+  // The store ran the search, so its scores replace the in-memory index's
+  const relevance = new Map(candidates.map(anime => [anime, matches.relevance.get(anime.MAL_ID!) ?? 0]));
+  const remaining: AnimeFilters = {
+    ...filters,
+    search: undefined,
+    sort: filters.sort && filters.sort.length > 0 ? filters.sort : [{ field: '_relevance', direction: 'desc' }],
+  };
+  return new AnimeFilterContext(candidates, relevance).filter(remaining);
+}
+
+// Load the dataset and build its search index ahead of the first tool call.
+// Rejects when the dataset cannot be loaded
+export async function warmUpAnimeIndex(): Promise<void> {
+  const data = await loadAnimeData();
+  if (data.length) {
+    createFilterChain(data).warmUp();
   }
 }
 
@@ -473,12 +978,35 @@ export async function loadAnimeData(): Promise<Anime[]> {
 export function filterAnime(data: Anime[], filters: AnimeFilters): Anime[] | null {
   if (!data.length) return null;
   
-  const context = new AnimeFilterContext(data);
+  const context = createFilterChain(data);
   const result = context.filter(filters).getData();
   
   return result.length > 0 ? result : null;
 }
 
+// Filtering function that attaches each result's search relevance as `_relevance`
+export function filterAnimeRanked(data: Anime[], filters: AnimeFilters): RankedAnime[] | null {
+  if (!data.length) return null;
+
+  const ranked = createFilterChain(data).filter(filters).getRankedData();
+
+  return ranked.length > 0 ? ranked : null;
+}
+
+// Resolve a title to one anime: exact (case-insensitive) Title, English or Japanese match first,
+// then the most relevant search hit
+export function findAnimeByTitle(data: Anime[], title: string): Anime | null {
+  const searchTitle = title.toLowerCase().trim();
+  const exact = data.find(anime =>
+    anime.Title?.toLowerCase().trim() === searchTitle ||
+    anime.English?.toLowerCase().trim() === searchTitle ||
+    anime.Japanese?.toLowerCase().trim() === searchTitle
+  );
+  if (exact) return exact;
+
+  return filterAnime(data, { search: { query: title }, limit: 1 })?.[0] ?? null;
+}
+
 // Convenience functions for specific filter types
 export function searchAnimeByText(data: Anime[], query: string): Anime[] | null {
   return filterAnime(data, { search: { query } });
@@ -510,7 +1038,12 @@ export function filterAnimeByYear(data: Anime[], startYear?: string, endYear?: s
 
 // Chain multiple filters together
 export function createFilterChain(data: Anime[]): AnimeFilterContext {
-  return new AnimeFilterContext(data);
+  let context = filterContexts.get(data);
+  if (!context) {
+    context = new AnimeFilterContext(data);
+    filterContexts.set(data, context);
+  }
+  return context;
 }
 
 // Get unique values for dropdown filters
@@ -519,22 +1052,218 @@ export function getUniqueValues(data: Anime[], field: keyof Anime): string[] {
   
   data.forEach(anime => {
     const value = anime[field];
-    if (value) {
-      if (field === 'Genres' || field === 'Studios' || field === 'Producers') {
-        // Split comma-separated values
-        value.toString().split(',').forEach(item => {
-          const trimmed = item.trim();
-          if (trimmed) values.add(trimmed);
-        });
-      } else {
-        values.add(value.toString());
-      }
+    if (field === 'Genres' || field === 'Themes' || field === 'Studios' || field === 'Producers') {
+      // Use the already split list values
+      const listField = field.toLowerCase() as AnimeListField;
+      anime[listField].forEach(item => values.add(item));
+    } else if (Array.isArray(value)) {
+      value.forEach(item => values.add(typeof item === 'string' ? item : item.title));
+    } else if (value) {
+      values.add(value.toString());
     }
   });
   
   return Array.from(values).sort();
 }
 
+// Categorical fields covered by the canonical vocabulary
+export type VocabularyField = 'Type' | 'Status' | 'Genres' | 'Themes' | 'Demographic' | 'Studios' | 'Producers' | 'Source' | 'Rating';
+
+// Canonical values per field, plus a lookup from normalized terms to canonical values
+export type AnimeVocabulary = Record<VocabularyField, {
+  values: string[];
+  terms: Map<string, string>;
+}>;
+
+const VOCABULARY_FIELDS: VocabularyField[] = ['Type', 'Status', 'Genres', 'Themes', 'Demographic', 'Studios', 'Producers', 'Source', 'Rating'];
+
+// Filter keys of AnimeFilters that hold categorical vocabulary values
+const CATEGORICAL_FILTER_FIELDS = {
+  type: 'Type',
+  status: 'Status',
+  genres: 'Genres',
+  themes: 'Themes',
+  demographic: 'Demographic',
+  studios: 'Studios',
+  producers: 'Producers',
+  source: 'Source',
+  rating: 'Rating',
+} as const satisfies Partial<Record<keyof AnimeFilters, VocabularyField>>;
+
+// Common alternative spellings, keyed and valued by normalized term
+const TERM_ALIASES: Record<string, string> = {
+  // Genres
+  sf: 'scifi',
+  sciencefiction: 'scifi',
+  sol: 'sliceoflife',
+  shoujoai: 'girlslove',
+  yuri: 'girlslove',
+  shounenai: 'boyslove',
+  yaoi: 'boyslove',
+  // Demographics
+  shonen: 'shounen',
+  shojo: 'shoujo',
+  // Types
+  film: 'movie',
+  movies: 'movie',
+  series: 'tv',
+  tvseries: 'tv',
+  // Statuses
+  airing: 'currentlyairing',
+  ongoing: 'currentlyairing',
+  finished: 'finishedairing',
+  completed: 'finishedairing',
+  upcoming: 'notyetaired',
+  // Sources
+  ln: 'lightnovel',
+  wn: 'webnovel',
+  vn: 'visualnovel',
+};
+
+// Vocabularies keyed by the dataset they were built from
+const vocabularies = new WeakMap<Anime[], AnimeVocabulary>();
+
+const normalizeTerm = (value: string): string => value.toLowerCase().replace(/[^a-z0-9+]/g, '');
+
+// Build (once per dataset) the canonical vocabulary of categorical values
+export function getVocabulary(data: Anime[]): AnimeVocabulary {
+  let vocabulary = vocabularies.get(data);
+  if (vocabulary) return vocabulary;
+
+  vocabulary = {} as AnimeVocabulary;
+  for (const field of VOCABULARY_FIELDS) {
+    const values = getUniqueValues(data, field);
+    const terms = new Map<string, string>();
+
+    for (const value of values) {
+      terms.set(normalizeTerm(value), value);
+    }
+    // Ratings are usually referred to by their code, e.g. 'PG-13' for 'PG-13 - Teens 13 or older'
+    for (const value of values) {
+      const code = value.split(' - ')[0];
+      if (code !== value && !terms.has(normalizeTerm(code))) {
+        terms.set(normalizeTerm(code), value);
+      }
+    }
+
+    vocabulary[field] = { values, terms };
+  }
+
+  vocabularies.set(data, vocabulary);
+  return vocabulary;
+}
+
+// Resolve a user-supplied term to its canonical vocabulary value
+export function resolveVocabularyValue(vocabulary: AnimeVocabulary, field: VocabularyField, value: string): string | null {
+  const { terms } = vocabulary[field];
+  const term = normalizeTerm(value);
+  return terms.get(term) ?? terms.get(TERM_ALIASES[term] ?? '') ?? null;
+}
+
+// Build a predicate comparing one filter value against field values
+export function createValueMatcher(
+  value: string,
+  matchMode: MatchMode,
+  field?: keyof Anime,
+  vocabulary?: AnimeVocabulary
+): (fieldValue: string) => boolean {
+  const query = value.toLowerCase();
+
+  switch (matchMode) {
+    case 'exact':
+      return fieldValue => fieldValue.toLowerCase() === query;
+    case 'prefix':
+      return fieldValue => fieldValue.toLowerCase().startsWith(query);
+    case 'alias': {
+      const canonical = vocabulary && field && field in vocabulary
+        ? resolveVocabularyValue(vocabulary, field as VocabularyField, value)
+        : null;
+      const term = normalizeTerm(value);
+      const aliasTerm = TERM_ALIASES[term] ?? term;
+      return canonical !== null
+        ? fieldValue => fieldValue === canonical
+        : fieldValue => normalizeTerm(fieldValue) === aliasTerm;
+    }
+    default:
+      return fieldValue => fieldValue.toLowerCase().includes(query);
+  }
+}
+
+// Categorical filter values (including those in boolean groups) that match nothing in the vocabulary
+export function getUnknownFilterValues(data: Anime[], filters: AnimeFilters): string[] {
+  const vocabulary = getVocabulary(data);
+  const unknown = new Set<string>();
+
+  const visit = (group: AnimeFilters) => {
+    for (const [key, field] of Object.entries(CATEGORICAL_FILTER_FIELDS)) {
+      const filter = group[key as keyof typeof CATEGORICAL_FILTER_FIELDS];
+      if (!filter) continue;
+
+      const { values, exclude, matchMode } = toSelection(filter);
+      for (const value of [...values, ...exclude]) {
+        const matches = createValueMatcher(value, matchMode, field, vocabulary);
+        if (!vocabulary[field].values.some(matches)) unknown.add(value);
+      }
+    }
+    group.and?.forEach(visit);
+    group.or?.forEach(visit);
+    if (group.not) visit(group.not);
+  };
+
+  visit(filters);
+  return Array.from(unknown);
+}
+
+// Values each facet counts for an anime
+const FACET_VALUES: Record<Exclude<FacetField, 'year'>, (anime: Anime) => string[]> = {
+  genres: anime => anime.genres,
+  themes: anime => anime.themes,
+  type: anime => [anime.Type],
+  status: anime => [anime.Status],
+  demographic: anime => [anime.Demographic],
+  source: anime => [anime.Source],
+  rating: anime => [anime.Rating],
+  studios: anime => anime.studios,
+  artists: anime => anime.artists,
+};
+
+function getYearBucket(anime: Anime, size: number): string | null {
+  if (!anime.airedFrom) return null;
+  const start = Math.floor(parseInt(anime.airedFrom.slice(0, 4), 10) / size) * size;
+  if (size === 1) return String(start);
+  if (size === 10) return `${start}s`;
+  return `${start}-${start + size - 1}`;
+}
+
+// Count how results spread across facet values
+export function computeFacets(data: Anime[], request: FacetRequest | FacetField[]): AnimeFacets {
+  const { fields, limit = 10, yearBucketSize = 10 } = Array.isArray(request) ? { fields: request } : request;
+  const facets: AnimeFacets = {};
+
+  for (const field of fields) {
+    const counts = new Map<string, number>();
+    const bucketSize = Math.max(1, Math.floor(yearBucketSize));
+
+    for (const anime of data) {
+      const values = field === 'year'
+        ? [getYearBucket(anime, bucketSize)]
+        : FACET_VALUES[field](anime);
+      for (const value of values) {
+        if (!value || value === 'N/A') continue;
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    const entries = Array.from(counts, ([value, count]) => ({ value, count }));
+    facets[field] = field === 'year'
+      // Year buckets read best in chronological order
+      ? entries.sort((a, b) => a.value.localeCompare(b.value))
+      : entries.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)).slice(0, limit);
+  }
+
+  return facets;
+}
+
 // Get statistics for numeric fields
 export function getFieldStatistics(data: Anime[], field: keyof Anime): {
   min: number;
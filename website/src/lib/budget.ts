@@ -0,0 +1,157 @@
+import type { JSONValue, LanguageModelUsage } from 'ai';
+
+// Token accounting for the chat: budgets that keep tool output small enough for the model's
+// context across the tool loop, and the per-step usage the chat route reports to the client
+
+// Tokens a page of tool results may take by default, and the most a tool call may ask for
+export const DEFAULT_TOKEN_BUDGET = 4000;
+export const MAX_TOKEN_BUDGET = 16000;
+
+// Fields kept in every projected row, so the model can still tell rows apart and refer to them
+const IDENTITY_FIELDS = ['malId', 'title', 'number'];
+
+// Strings are never shortened below this many characters
+const MIN_STRING_LENGTH = 80;
+
+interface TextField {
+  parent: Record<string, unknown>;
+  key: string;
+  path: string;
+}
+
+// What a tool call asked for: the row fields it needs and the tokens its output may take
+export interface OutputBudget {
+  fields?: string[];
+  maxTokens?: number;
+}
+
+// The budget a page of results was fitted to, returned with the page so the model's view can be projected
+export interface PageBudget {
+  maxTokens: number;
+  fields?: string[];
+  deferredCount: number; // results that fit the page size but not the budget; they start the next page
+}
+
+// Rough, but deterministic: about four characters per token of JSON
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return Math.ceil(text.length / 4);
+}
+
+export function clampTokenBudget(maxTokens?: number): number {
+  return Math.min(MAX_TOKEN_BUDGET, Math.max(100, Math.floor(maxTokens ?? 0) || DEFAULT_TOKEN_BUDGET));
+}
+
+// Keep only the requested fields of a row; unknown fields are ignored
+export function projectFields(row: unknown, fields?: string[]): unknown {
+  if (!fields || fields.length === 0 || typeof row !== 'object' || row === null || Array.isArray(row)) return row;
+  const keep = new Set([...IDENTITY_FIELDS, ...fields]);
+  return Object.fromEntries(Object.entries(row).filter(([key]) => keep.has(key)));
+}
+
+// How many of the rows, from the start, fit the budget once projected; at least one, so a page never comes back empty
+export function countRowsWithinBudget(rows: unknown[], budget: OutputBudget): number {
+  const maxTokens = clampTokenBudget(budget.maxTokens);
+  let used = 0;
+  for (let i = 0; i < rows.length; i++) {
+    used += estimateTokens(projectFields(rows[i], budget.fields));
+    if (used > maxTokens) return Math.max(i, 1);
+  }
+  return rows.length;
+}
+
+// Halve the longest strings in a value until it fits the budget, returning the paths that were cut
+function shortenStrings(value: unknown, maxTokens: number): { value: JSONValue; shortened: string[] } {
+  const copy = JSON.parse(JSON.stringify(value ?? null)) as JSONValue;
+  const shortened = new Set<string>();
+
+  // Strings that are still long enough to halve; array indexes are left out of the path,
+  // so every row's description is reported once
+  const collect = (node: unknown, path: string, found: TextField[]) => {
+    if (typeof node !== 'object' || node === null) return;
+    for (const [key, child] of Object.entries(node)) {
+      const childPath = Array.isArray(node) ? path : path ? `${path}.${key}` : key;
+      if (typeof child === 'string' && child.length >= 2 * MIN_STRING_LENGTH) {
+        found.push({ parent: node as Record<string, unknown>, key, path: childPath });
+      } else {
+        collect(child, childPath, found);
+      }
+    }
+  };
+
+  while (estimateTokens(copy) > maxTokens) {
+    const found: TextField[] = [];
+    collect(copy, '', found);
+    if (found.length === 0) break;
+
+    const longest = Math.max(...found.map(({ parent, key }) => (parent[key] as string).length));
+    for (const { parent, key, path } of found) {
+      const text = parent[key] as string;
+      if (text.length < longest / 2) continue;
+      parent[key] = `${text.slice(0, Math.floor(text.length / 2))}...`;
+      shortened.add(path);
+    }
+  }
+  return { value: copy, shortened: [...shortened] };
+}
+
+// What the model sees of a tool's output: paged rows projected to the requested fields, long text
+// shortened until the output fits its budget, and a summary of what was left out.
+// The chat UI still receives the full output
+export function toBudgetedModelOutput(output: unknown): { type: 'json'; value: JSONValue } {
+  if (typeof output !== 'object' || output === null || Array.isArray(output)) {
+    return { type: 'json', value: (output ?? null) as JSONValue };
+  }
+
+  const { budget, ...rest } = output as Record<string, unknown> & { budget?: PageBudget };
+  const rows = Array.isArray(rest.results) ? rest.results as unknown[] : [];
+  const projectedRows = rows.map(row => projectFields(row, budget?.fields));
+  const droppedFields = [...new Set(rows.flatMap((row, i) =>
+    typeof row === 'object' && row !== null
+      ? Object.keys(row).filter(key => !(key in (projectedRows[i] as object)))
+      : []
+  ))];
+
+  // Outputs without a page budget, such as getAnimeById, are only capped at the largest budget
+  const { value, shortened } = shortenStrings(
+    rows.length > 0 ? { ...rest, results: projectedRows } : rest,
+    budget?.maxTokens ?? MAX_TOKEN_BUDGET
+  );
+  const deferredCount = budget?.deferredCount ?? 0;
+  if (deferredCount === 0 && droppedFields.length === 0 && shortened.length === 0) {
+    return { type: 'json', value };
+  }
+
+  const note = [
+    deferredCount > 0 && `${deferredCount} more results did not fit the token budget and start the next page (see nextCursor)`,
+    droppedFields.length > 0 && `Rows leave out the fields that were not requested: ${droppedFields.join(', ')}`,
+    shortened.length > 0 && `Long text in ${shortened.join(', ')} was shortened to fit the token budget`,
+  ].filter(Boolean).join('. ');
+
+  return {
+    type: 'json',
+    value: {
+      ...(value as Record<string, JSONValue>),
+      omitted: {
+        ...(deferredCount > 0 ? { deferredResults: deferredCount } : {}),
+        ...(droppedFields.length > 0 ? { fields: droppedFields } : {}),
+        ...(shortened.length > 0 ? { shortenedFields: shortened } : {}),
+        note,
+      },
+    },
+  };
+}
+
+// Tokens one model call of a chat turn used, and the tools it called
+export interface StepUsage {
+  usage: LanguageModelUsage;
+  toolNames: string[];
+}
+
+// Metadata the chat route attaches to each assistant message
+export interface ChatMessageMetadata {
+  model?: string;
+  contextWindow?: number;
+  steps?: StepUsage[];
+  totalUsage?: LanguageModelUsage;
+}
@@ -0,0 +1,109 @@
+import path from 'path';
+import type { Anime } from './anime';
+import { getDatasetMtime, readVerifiedDataset } from './ingest';
+
+// Loaders for the optional datasets ingested next to anime-data.json (characters, staff, ...)
+
+export function getDatasetPath(fileName: string): string {
+  return path.join(process.cwd(), 'src', 'lib', fileName);
+}
+
+async function readDataset<T>(filePath: string, normalize: (row: Record<string, unknown>) => T): Promise<T[]> {
+  const { rows, manifest } = await readVerifiedDataset(filePath, raw => {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Dataset ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!Array.isArray(rows)) {
+      throw new Error(`Dataset ${filePath} must contain an array of rows`);
+    }
+    return rows as Array<Record<string, unknown>>;
+  });
+  if (!manifest) {
+    throw new Error(`Dataset ${filePath} has no manifest. Run \`pnpm ingest\` to rebuild it`);
+  }
+
+  return rows.map(normalize);
+}
+
+// Create a loader that reads, verifies and normalizes a dataset file, re-reading it when it changes.
+// The loader resolves to null when the dataset has not been ingested, and rejects when it is corrupt
+export function createDatasetLoader<T>(
+  fileName: string,
+  normalize: (row: Record<string, unknown>) => T
+): () => Promise<T[] | null> {
+  let cache: { mtimeMs: number; data: T[] } | null = null;
+  let pending: { mtimeMs: number; promise: Promise<T[]> } | null = null;
+
+  return async () => {
+    const filePath = getDatasetPath(fileName);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = await getDatasetMtime(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    if (cache && cache.mtimeMs === mtimeMs) {
+      return cache.data;
+    }
+
+    // Share one read between concurrent callers
+    if (!pending || pending.mtimeMs !== mtimeMs) {
+      pending = { mtimeMs, promise: readDataset(filePath, normalize) };
+    }
+
+    const load = pending;
+    try {
+      const data = await load.promise;
+      cache = { mtimeMs, data };
+      return data;
+    } finally {
+      if (pending === load) pending = null;
+    }
+  };
+}
+
+// MAL uses 'N/A' for missing text
+export function cleanText(value: unknown): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text === 'N/A' ? '' : text;
+}
+
+export function toNumberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// Rows grouped by lowercase anime title, per loaded dataset
+const groupedByAnime = new WeakMap<object[], Map<string, object[]>>();
+
+export function groupByAnime<T extends { animeTitle: string }>(rows: T[]): Map<string, T[]> {
+  let groups = groupedByAnime.get(rows) as Map<string, T[]> | undefined;
+  if (!groups) {
+    groups = new Map();
+    for (const row of rows) {
+      const key = row.animeTitle.toLowerCase();
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    groupedByAnime.set(rows, groups);
+  }
+  return groups;
+}
+
+// Anime keyed by lowercase title, the key the companion exports use
+const animeByTitle = new WeakMap<Anime[], Map<string, Anime>>();
+
+export function getAnimeByTitle(data: Anime[]): Map<string, Anime> {
+  let index = animeByTitle.get(data);
+  if (!index) {
+    index = new Map(data.map(anime => [anime.Title.toLowerCase(), anime]));
+    animeByTitle.set(data, index);
+  }
+  return index;
+}
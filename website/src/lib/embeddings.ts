@@ -0,0 +1,147 @@
+// Pluggable text embedders for the semantic search index
+
+export interface Embedder {
+  // Stable identifier, stored with a persisted index so it is rebuilt when the embedder changes
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her',
+  'his', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'them',
+  'they', 'this', 'to', 'was', 'were', 'when', 'which', 'who', 'with', 'will', 'written', 'source', 'mal', 'rewrite',
+]);
+
+// FNV-1a hash of a string with a seed, as an unsigned 32-bit integer
+function hashString(value: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Lowercase word tokens with stopwords dropped and plural/verb endings trimmed
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(token => token.replace(/(ing|ed|es|s)$/, '') || token);
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+// CPU-only embedder using signed feature hashing of unigrams and bigrams.
+// It needs no model download, so it is the default; plug in a neural embedder for better recall on vague queries.
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(readonly dimensions = 256) {
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+      }
+    });
+
+    for (const [feature, count] of counts) {
+      const bucket = hashString(feature, 0) % this.dimensions;
+      const sign = hashString(feature, 1) & 1 ? 1 : -1;
+      // Sublinear term frequency, bigrams weighted a little lower than words
+      const weight = (1 + Math.log(count)) * (feature.includes(' ') ? 0.5 : 1);
+      vector[bucket] += sign * weight;
+    }
+
+    return normalize(vector);
+  }
+}
+
+// Embedder backed by an OpenAI-compatible /embeddings endpoint, e.g. Ollama or llama.cpp running locally
+export class OpenAICompatibleEmbedder implements Embedder {
+  readonly id: string;
+
+  constructor(
+    private baseURL: string,
+    private model: string,
+    readonly dimensions: number,
+    private apiKey?: string,
+    private batchSize = 64
+  ) {
+    this.id = `openai-compatible:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const vectors: Float32Array[] = [];
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize);
+      const response = await fetch(`${this.baseURL.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, input: batch }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with status ${response.status}`);
+      }
+
+      const { data } = await response.json() as { data: Array<{ embedding: number[]; index: number }> };
+      data
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ embedding }) => vectors.push(normalize(Float32Array.from(embedding))));
+    }
+
+    return vectors;
+  }
+}
+
+let defaultEmbedder: Embedder | null = null;
+
+// Embedder selected by environment: ANIME_EMBEDDINGS_URL + ANIME_EMBEDDINGS_MODEL (+ ANIME_EMBEDDINGS_DIMENSIONS)
+// for a local OpenAI-compatible server, otherwise the built-in hashing embedder
+export function getEmbedder(): Embedder {
+  if (!defaultEmbedder) {
+    const baseURL = process.env.ANIME_EMBEDDINGS_URL;
+    const model = process.env.ANIME_EMBEDDINGS_MODEL;
+
+    defaultEmbedder = baseURL && model
+      ? new OpenAICompatibleEmbedder(
+          baseURL,
+          model,
+          Number(process.env.ANIME_EMBEDDINGS_DIMENSIONS) || 768,
+          process.env.ANIME_EMBEDDINGS_API_KEY
+        )
+      : new HashingEmbedder();
+  }
+  return defaultEmbedder;
+}
+
+// Replace the embedder used for new indexes (e.g. with a custom CPU model)
+export function setEmbedder(embedder: Embedder): void {
+  defaultEmbedder = embedder;
+}
@@ -0,0 +1,109 @@
+import { parseMalDate, type Anime } from './anime';
+import { cleanText, createDatasetLoader, toNumberOrNull } from './datasets';
+
+// Per-episode titles, air dates and user scores from the episodes export
+
+export interface AnimeEpisode {
+  animeId: number; // MAL id of the series
+  number: number;
+  title: string;
+  titleJapanese: string;
+  aired: string | null; // ISO date (YYYY-MM-DD)
+  score: number | null; // MAL episode score, 1-5
+  votes: number | null;
+  filler: boolean;
+  recap: boolean;
+}
+
+export interface EpisodeMatch {
+  anime: Anime;
+  episode: AnimeEpisode;
+}
+
+// Points in a sparkline; longer series are averaged into this many buckets
+export const SPARKLINE_POINTS = 24;
+
+// Accept ISO dates as well as MAL's "Apr 3, 2016"
+export function toIsoDate(value: string): string | null {
+  const iso = value.trim().match(/^\d{4}-\d{2}-\d{2}/);
+  return iso ? iso[0] : parseMalDate(value);
+}
+
+export const loadEpisodes = createDatasetLoader('anime-episodes.json', (row): AnimeEpisode => ({
+  animeId: toNumberOrNull(row.Anime_MAL_ID) ?? 0,
+  number: toNumberOrNull(row.Episode_Number) ?? 0,
+  title: cleanText(row.Episode_Title),
+  titleJapanese: cleanText(row.Episode_Title_Japanese),
+  aired: toIsoDate(cleanText(row.Episode_Aired)),
+  score: toNumberOrNull(row.Episode_Score),
+  votes: toNumberOrNull(row.Episode_Votes),
+  filler: row.Filler === true,
+  recap: row.Recap === true,
+}));
+
+// Episodes keyed by series MAL id in episode order, per loaded dataset
+const episodesBySeries = new WeakMap<AnimeEpisode[], Map<number, AnimeEpisode[]>>();
+
+function getEpisodesBySeries(episodes: AnimeEpisode[]): Map<number, AnimeEpisode[]> {
+  let series = episodesBySeries.get(episodes);
+  if (!series) {
+    series = new Map();
+    for (const episode of episodes) {
+      const list = series.get(episode.animeId);
+      if (list) list.push(episode);
+      else series.set(episode.animeId, [episode]);
+    }
+    for (const list of series.values()) list.sort((a, b) => a.number - b.number);
+    episodesBySeries.set(episodes, series);
+  }
+  return series;
+}
+
+export function getSeriesEpisodes(episodes: AnimeEpisode[], malId: number | null): AnimeEpisode[] {
+  return malId !== null ? getEpisodesBySeries(episodes).get(malId) ?? [] : [];
+}
+
+// Highest-scored episodes first, ties going to the episode with more votes.
+// Episodes with fewer than minVotes votes are skipped, since a handful of votes is noise
+export function getBestEpisodes(
+  episodes: AnimeEpisode[],
+  options: { limit?: number; minVotes?: number } = {}
+): AnimeEpisode[] {
+  const { limit = 5, minVotes = 0 } = options;
+  return episodes
+    .filter(episode => episode.score !== null && (episode.votes ?? 0) >= minVotes)
+    .sort((a, b) => b.score! - a.score! || (b.votes ?? 0) - (a.votes ?? 0))
+    .slice(0, limit);
+}
+
+// Episodes of any series (or only `within`) that aired on the given date
+export function findEpisodesByAirDate(
+  data: Anime[],
+  episodes: AnimeEpisode[],
+  date: string,
+  within?: Anime[]
+): EpisodeMatch[] {
+  const isoDate = toIsoDate(date);
+  if (!isoDate) return [];
+
+  const candidates = within ?? data;
+  return candidates.flatMap(anime =>
+    getSeriesEpisodes(episodes, anime.MAL_ID)
+      .filter(episode => episode.aired === isoDate)
+      .map(episode => ({ anime, episode }))
+  );
+}
+
+// Episode scores in order, averaged into at most SPARKLINE_POINTS buckets; null when no episode is scored
+export function getScoreSparkline(episodes: AnimeEpisode[]): number[] | null {
+  const scores = episodes.map(episode => episode.score).filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+
+  const bucketSize = Math.ceil(scores.length / SPARKLINE_POINTS);
+  const points: number[] = [];
+  for (let i = 0; i < scores.length; i += bucketSize) {
+    const bucket = scores.slice(i, i + bucketSize);
+    points.push(Math.round(bucket.reduce((sum, score) => sum + score, 0) / bucket.length * 100) / 100);
+  }
+  return points;
+}
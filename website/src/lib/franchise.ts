@@ -0,0 +1,275 @@
+import type { Anime } from './anime';
+import { cleanText, createDatasetLoader, toNumberOrNull } from './datasets';
+
+// Franchises (seasons, movies, side stories) built from the related_anime relations, and their watch orders
+
+// Read as "<target> is the <relation> of <source>", e.g. relation 'Sequel' or 'Side story'
+export interface RelationEdge {
+  sourceId: number;
+  targetId: number;
+  relation: string;
+}
+
+// main = part of the main story, recap = retells earlier entries, extra = music videos, commercials, ...
+export type FranchiseEntryKind = 'main' | 'side story' | 'recap' | 'spin-off' | 'alternative' | 'extra';
+
+export interface FranchiseEntry {
+  anime: Anime;
+  kind: FranchiseEntryKind;
+  optional: boolean; // not needed to follow the main story
+  note: string | null;
+}
+
+export interface Franchise {
+  id: number; // MAL id of the first entry released
+  name: string;
+  entries: FranchiseEntry[]; // release order
+  chronologicalOrder: FranchiseEntry[]; // story order, following prequel/sequel links
+}
+
+interface FranchiseIndex {
+  byId: Map<number, Anime>;
+  componentOf: Map<number, number>;
+  members: Map<number, number[]>;
+  edges: Map<number, RelationEdge[]>;
+  franchises: Map<number, Franchise>;
+}
+
+// Relations that keep titles in one franchise. Adaptation points at manga, and Character/Other
+// link unrelated shows that share a cameo, so they are left out
+const FRANCHISE_RELATIONS = new Set<string>([
+  'Prequel', 'Sequel', 'Side story', 'Parent story', 'Summary', 'Full story', 'Alternative version', 'Spin-off'
+]);
+
+// Types that are never part of the story
+const EXTRA_TYPES = new Set(['Music', 'CM', 'PV']);
+
+const KIND_NOTES: Record<FranchiseEntryKind, string | null> = {
+  main: null,
+  'side story': 'Side story; optional',
+  recap: 'Recap of earlier entries; safe to skip',
+  'spin-off': 'Spin-off; optional',
+  alternative: 'Alternative version that retells the story',
+  extra: 'Music video or promotional extra',
+};
+
+export const loadRelations = createDatasetLoader('anime-relations.json', (row): RelationEdge => ({
+  sourceId: toNumberOrNull(row.Anime_MAL_ID) ?? 0,
+  targetId: toNumberOrNull(row.Related_Anime_ID) ?? 0,
+  relation: cleanText(row.Relation),
+}));
+
+function compareRelease(a: Anime, b: Anime): number {
+  if (a.airedFrom && b.airedFrom && a.airedFrom !== b.airedFrom) return a.airedFrom < b.airedFrom ? -1 : 1;
+  if (a.airedFrom && !b.airedFrom) return -1;
+  if (!a.airedFrom && b.airedFrom) return 1;
+  return (a.MAL_ID ?? 0) - (b.MAL_ID ?? 0);
+}
+
+const indexCache = new WeakMap<Anime[], WeakMap<RelationEdge[], FranchiseIndex>>();
+
+function getFranchiseIndex(data: Anime[], relations: RelationEdge[]): FranchiseIndex {
+  let byRelations = indexCache.get(data);
+  let index = byRelations?.get(relations);
+  if (index) return index;
+
+  const byId = new Map(data.filter(anime => anime.MAL_ID !== null).map(anime => [anime.MAL_ID!, anime]));
+
+  // Union-find over the franchise relations between anime in the dataset
+  const parent = new Map<number, number>();
+  const find = (id: number): number => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  const edges = new Map<number, RelationEdge[]>();
+  for (const edge of relations) {
+    if (!FRANCHISE_RELATIONS.has(edge.relation) || !byId.has(edge.sourceId) || !byId.has(edge.targetId)) continue;
+    edges.set(edge.sourceId, [...(edges.get(edge.sourceId) ?? []), edge]);
+    edges.set(edge.targetId, [...(edges.get(edge.targetId) ?? []), edge]);
+    const [a, b] = [find(edge.sourceId), find(edge.targetId)];
+    if (a !== b) parent.set(a, b);
+  }
+
+  const componentOf = new Map<number, number>();
+  const members = new Map<number, number[]>();
+  for (const id of edges.keys()) {
+    const root = find(id);
+    componentOf.set(id, root);
+    members.set(root, [...(members.get(root) ?? []), id]);
+  }
+
+  index = { byId, componentOf, members, edges, franchises: new Map() };
+  if (!byRelations) {
+    byRelations = new WeakMap();
+    indexCache.set(data, byRelations);
+  }
+  byRelations.set(relations, index);
+  return index;
+}
+
+// Classify each entry from how its neighbours describe it, then pass the kind on to its own sequels
+function classifyEntries(ids: number[], index: FranchiseIndex): Map<number, FranchiseEntryKind> {
+  const kinds = new Map<number, FranchiseEntryKind>();
+
+  for (const id of ids) {
+    const anime = index.byId.get(id)!;
+    const relatedAs = (index.edges.get(id) ?? []).flatMap(edge => {
+      // How this entry is described relative to the other end of the edge
+      if (edge.targetId === id) return [edge.relation];
+      if (edge.relation === 'Full story') return ['Summary'];
+      if (edge.relation === 'Parent story') return ['Side story'];
+      return [];
+    });
+
+    if (EXTRA_TYPES.has(anime.Type)) kinds.set(id, 'extra');
+    else if (relatedAs.includes('Summary')) kinds.set(id, 'recap');
+    else if (relatedAs.includes('Side story')) kinds.set(id, 'side story');
+    else if (relatedAs.includes('Spin-off')) kinds.set(id, 'spin-off');
+    else if (
+      // Of two alternative versions, the later release is the alternative one
+      (index.edges.get(id) ?? []).some(edge => {
+        const otherId = edge.sourceId === id ? edge.targetId : edge.sourceId;
+        return edge.relation === 'Alternative version' && compareRelease(index.byId.get(otherId)!, anime) < 0;
+      })
+    ) kinds.set(id, 'alternative');
+    else kinds.set(id, 'main');
+  }
+
+  // A sequel of a spin-off or side story belongs to that branch, not the main story
+  const queue = ids.filter(id => kinds.get(id) !== 'main');
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const sequelId of getSequels(id, index)) {
+      if (kinds.get(sequelId) === 'main') {
+        kinds.set(sequelId, kinds.get(id)!);
+        queue.push(sequelId);
+      }
+    }
+  }
+
+  return kinds;
+}
+
+function getSequels(id: number, index: FranchiseIndex): number[] {
+  return (index.edges.get(id) ?? []).flatMap(edge => {
+    if (edge.sourceId === id && edge.relation === 'Sequel') return [edge.targetId];
+    if (edge.targetId === id && edge.relation === 'Prequel') return [edge.sourceId];
+    return [];
+  });
+}
+
+// Story order: prequels before sequels and parents before their side stories and recaps,
+// with ties (and any cycles in the relation data) broken by release date
+function toChronologicalOrder(ids: number[], index: FranchiseIndex): number[] {
+  const after = new Map<number, Set<number>>(ids.map(id => [id, new Set<number>()]));
+  const addOrder = (before: number, later: number) => after.get(before)?.add(later);
+
+  for (const id of ids) {
+    for (const edge of index.edges.get(id) ?? []) {
+      if (edge.sourceId !== id) continue;
+      switch (edge.relation) {
+        case 'Sequel':
+        case 'Side story':
+        case 'Summary':
+        case 'Spin-off':
+          addOrder(edge.sourceId, edge.targetId);
+          break;
+        case 'Prequel':
+        case 'Parent story':
+        case 'Full story':
+          addOrder(edge.targetId, edge.sourceId);
+          break;
+      }
+    }
+  }
+
+  const inDegree = new Map<number, number>(ids.map(id => [id, 0]));
+  for (const later of after.values()) {
+    for (const id of later) inDegree.set(id, (inDegree.get(id) ?? 0) + 1);
+  }
+
+  const byRelease = (a: number, b: number) => compareRelease(index.byId.get(a)!, index.byId.get(b)!);
+  const ready = ids.filter(id => inDegree.get(id) === 0).sort(byRelease);
+  const order: number[] = [];
+  const placed = new Set<number>();
+
+  while (order.length < ids.length) {
+    // On a cycle nothing is ready; continue with the earliest release not yet placed
+    const next = ready.shift() ?? ids.filter(id => !placed.has(id)).sort(byRelease)[0];
+    if (placed.has(next)) continue;
+    placed.add(next);
+    order.push(next);
+
+    for (const later of after.get(next) ?? []) {
+      inDegree.set(later, (inDegree.get(later) ?? 0) - 1);
+      if (inDegree.get(later) === 0 && !placed.has(later)) {
+        ready.push(later);
+        ready.sort(byRelease);
+      }
+    }
+  }
+
+  return order;
+}
+
+function buildFranchise(ids: number[], index: FranchiseIndex): Franchise {
+  const kinds = classifyEntries(ids, index);
+  const toEntry = (id: number): FranchiseEntry => {
+    const kind = kinds.get(id)!;
+    return { anime: index.byId.get(id)!, kind, optional: kind !== 'main', note: KIND_NOTES[kind] };
+  };
+
+  const entries = ids.map(toEntry).sort((a, b) => compareRelease(a.anime, b.anime));
+  const first = entries.find(entry => entry.kind === 'main') ?? entries[0];
+
+  return {
+    id: entries[0].anime.MAL_ID!,
+    name: first.anime.Title,
+    entries,
+    chronologicalOrder: toChronologicalOrder(ids, index).map(toEntry),
+  };
+}
+
+// The franchise an anime belongs to, or null when it has no related entries in the dataset
+export function getFranchise(data: Anime[], relations: RelationEdge[], anime: Anime): Franchise | null {
+  const index = getFranchiseIndex(data, relations);
+  const component = anime.MAL_ID !== null ? index.componentOf.get(anime.MAL_ID) : undefined;
+  if (component === undefined) return null;
+
+  let franchise = index.franchises.get(component);
+  if (!franchise) {
+    franchise = buildFranchise(index.members.get(component)!, index);
+    index.franchises.set(component, franchise);
+  }
+  return franchise;
+}
+
+// Keep only the first result of each franchise, so one query does not return every season of a show.
+// `others` lists the collapsed results behind each kept one
+export function groupByFranchise<T extends Anime>(
+  data: Anime[],
+  relations: RelationEdge[],
+  results: T[]
+): { results: T[]; others: Map<T, T[]> } {
+  const index = getFranchiseIndex(data, relations);
+  const kept = new Map<number, T>();
+  const grouped: T[] = [];
+  const others = new Map<T, T[]>();
+
+  for (const anime of results) {
+    const component = anime.MAL_ID !== null ? index.componentOf.get(anime.MAL_ID) : undefined;
+    const representative = component !== undefined ? kept.get(component) : undefined;
+
+    if (representative) {
+      others.set(representative, [...(others.get(representative) ?? []), anime]);
+      continue;
+    }
+    if (component !== undefined) kept.set(component, anime);
+    grouped.push(anime);
+  }
+
+  return { results: grouped, others };
+}
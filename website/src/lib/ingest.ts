@@ -0,0 +1,754 @@
+import { createHash } from 'crypto';
+import { readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+// Typed CSV -> JSON ingestion for the MAL exports (anime, characters, staff, reviews, recommendations, relations, statistics, episodes)
+
+// Bump when the shape of the rows written by the ingestion changes
+export const DATASET_SCHEMA_VERSION = 4;
+
+export interface DatasetManifest {
+  schemaVersion: number;
+  version: number; // increases with every ingestion run
+  rowCount: number;
+  quarantinedCount: number;
+  duplicateCount: number;
+  checksum: string; // sha256 of the dataset file
+  source: string;
+  builtAt: string;
+  file?: string; // versioned file holding the rows, e.g. anime-data.v7.json; absent in manifests written before versioning
+}
+
+export interface QuarantinedRow {
+  line: number;
+  errors: string[];
+  row: Record<string, string>;
+}
+
+export interface IngestResult<T = AnimeRow> {
+  rows: T[];
+  quarantined: QuarantinedRow[];
+  duplicateCount: number;
+}
+
+export interface TitleRef {
+  malId: number | null;
+  title: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// Titles added, removed and changed between two versions of anime-data.json, matched by MAL id
+export interface DatasetDiff {
+  added: TitleRef[];
+  removed: TitleRef[];
+  changed: Array<TitleRef & { changes: FieldChange[] }>;
+  unchangedCount: number;
+}
+
+// A changelog entry: the diff one ingestion run applied
+export interface DatasetChange extends DatasetDiff {
+  version: number;
+  previousVersion: number | null;
+  source: string;
+  builtAt: string;
+}
+
+// Placeholders MAL uses for missing numbers
+const MISSING_NUMBERS = new Set(['', 'n/a', 'unknown', 'none', 'null', '-']);
+
+// Numbers arrive as strings like "1,234", "#56" or "N/A"
+const numeric = (schema: z.ZodNumber) => z.preprocess(value => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  if (MISSING_NUMBERS.has(text.toLowerCase())) return null;
+  return Number(text.replace(/^#/, '').replace(/,/g, ''));
+}, schema.nullable());
+
+const text = z.preprocess(value => (value === null || value === undefined ? '' : String(value).trim()), z.string());
+
+const requiredText = (error: string) =>
+  z.preprocess(value => (typeof value === 'string' ? value.trim() : value), z.string().min(1, error));
+
+// Lists the scraper stores as JSON, e.g. external links or voice actors
+const jsonList = <T extends z.ZodType>(item: T, error: string) => z.preprocess(value => {
+  if (typeof value !== 'string') return value ?? [];
+  const json = value.trim();
+  if (json === '' || json === 'N/A') return [];
+  try {
+    return JSON.parse(json);
+  } catch {
+    return value;
+  }
+}, z.array(item, { error }));
+
+const links = jsonList(z.object({ title: z.string(), url: z.string() }), 'Expected a JSON list of { title, url } links');
+
+export const animeRowSchema = z.object({
+  MAL_ID: numeric(z.number().int().positive()),
+  Title: requiredText('Title is required'),
+  Score: numeric(z.number().min(0).max(10)),
+  Score_Count: numeric(z.number().int().nonnegative()),
+  Popularity: numeric(z.number().int().nonnegative()),
+  Rank: numeric(z.number().int().nonnegative()),
+  Members: numeric(z.number().int().nonnegative()),
+  Favorites: numeric(z.number().int().nonnegative()),
+  Episodes: numeric(z.number().int().nonnegative()),
+  Description: text,
+  Background: text,
+  Synonyms: text,
+  Japanese: text,
+  English: text,
+  Type: text,
+  Status: text,
+  Aired: text,
+  Premiered: text,
+  Broadcast: text,
+  Producers: text,
+  Licensors: text,
+  Studios: text,
+  Source: text,
+  Genres: text,
+  Themes: text,
+  Demographic: text,
+  Duration: text,
+  Rating: text,
+  Opening_Themes: text,
+  Ending_Themes: text,
+  Image_URL: text,
+  Trailer_URL: text,
+  External_Links: links,
+});
+
+export type AnimeRow = z.infer<typeof animeRowSchema>;
+
+// mal_characters.csv: one row per character and anime
+export const characterRowSchema = z.object({
+  Character_MAL_ID: numeric(z.number().int().positive()),
+  Anime_Title: requiredText('Anime title is required'),
+  Character_Name: requiredText('Character name is required'),
+  Character_Name_Kanji: text,
+  Character_Role: text,
+  Character_About: text,
+  Character_Favorites: numeric(z.number().int().nonnegative()),
+  Member_Favorites: numeric(z.number().int().nonnegative()),
+  Voice_Actors: jsonList(
+    z.object({ name: z.string(), language: z.string() }),
+    'Expected a JSON list of { name, language } voice actors'
+  ),
+  Character_Image_URL: text,
+});
+
+export type CharacterRow = z.infer<typeof characterRowSchema>;
+
+// mal_staff.csv: one row per person and anime, with comma-separated roles
+export const staffRowSchema = z.object({
+  Staff_MAL_ID: numeric(z.number().int().positive()),
+  Anime_Title: requiredText('Anime title is required'),
+  Staff_Name: requiredText('Staff name is required'),
+  Staff_Role: text,
+  Given_Name: text,
+  Family_Name: text,
+  Alternate_Names: text,
+  Birthday: text,
+  About: text,
+  Favorites: numeric(z.number().int().nonnegative()),
+  Staff_Image_URL: text,
+});
+
+export type StaffRow = z.infer<typeof staffRowSchema>;
+
+const aspectScore = numeric(z.number().min(0).max(10));
+
+// mal_reviews.csv: one row per user review, with the overall score and the per-aspect sub-scores
+export const reviewRowSchema = z.object({
+  Review_ID: numeric(z.number().int().positive()),
+  Anime_Title: requiredText('Anime title is required'),
+  Username: text,
+  Review_Date: text,
+  Recommendation: text, // Recommended, Mixed Feelings or Not Recommended
+  Overall_Score: aspectScore,
+  Story_Score: aspectScore,
+  Animation_Score: aspectScore,
+  Sound_Score: aspectScore,
+  Character_Score: aspectScore,
+  Enjoyment_Score: aspectScore,
+  Helpful_Count: numeric(z.number().int().nonnegative()),
+  Review_Text: requiredText('Review text is required'),
+});
+
+export type ReviewRow = z.infer<typeof reviewRowSchema>;
+
+// mal_recommendations.csv: one row per "if you liked A, watch B" pair, with how many users made it
+export const recommendationRowSchema = z.object({
+  Anime_MAL_ID: numeric(z.number().int().positive()).refine(id => id !== null, 'Anime MAL id is required'),
+  Recommended_Anime_ID: numeric(z.number().int().positive()).refine(id => id !== null, 'Recommended anime id is required'),
+  Recommended_Title: text,
+  Recommendation_Count: numeric(z.number().int().nonnegative()),
+  Description: text,
+});
+
+export type RecommendationRow = z.infer<typeof recommendationRowSchema>;
+
+// mal_related_anime.csv: one row per relation, e.g. "<Related_Anime_ID> is the Sequel of <Anime_MAL_ID>"
+export const relationRowSchema = z.object({
+  Anime_MAL_ID: numeric(z.number().int().positive()).refine(id => id !== null, 'Anime MAL id is required'),
+  Related_Anime_ID: numeric(z.number().int().positive()).refine(id => id !== null, 'Related anime id is required'),
+  Related_Title: text,
+  Relation: requiredText('Relation type is required'),
+});
+
+export type RelationRow = z.infer<typeof relationRowSchema>;
+
+const voteCount = numeric(z.number().int().nonnegative());
+
+// Flags the scraper writes as true/false, 1/0 or yes/no
+const flag = z.preprocess(value => {
+  if (typeof value === 'boolean') return value;
+  return ['true', '1', 'yes'].includes(String(value ?? '').trim().toLowerCase());
+}, z.boolean());
+
+// mal_episodes.csv: one row per episode, with MAL's per-episode user score (1-5) and vote count
+export const episodeRowSchema = z.object({
+  Anime_MAL_ID: numeric(z.number().int().positive()).refine(id => id !== null, 'Anime MAL id is required'),
+  Episode_Number: numeric(z.number().int().nonnegative()).refine(number => number !== null, 'Episode number is required'),
+  Episode_Title: text,
+  Episode_Title_Japanese: text,
+  Episode_Aired: text,
+  Episode_Score: numeric(z.number().min(0).max(5)),
+  Episode_Votes: voteCount,
+  Filler: flag,
+  Recap: flag,
+});
+
+export type EpisodeRow = z.infer<typeof episodeRowSchema>;
+
+// Column names used by the scraper's episodes table
+const EPISODE_COLUMN_ALIASES: Record<string, string> = {
+  anime_id: 'Anime_MAL_ID',
+  mal_id: 'Anime_MAL_ID',
+  episode_number: 'Episode_Number',
+  number: 'Episode_Number',
+  title: 'Episode_Title',
+  title_japanese: 'Episode_Title_Japanese',
+  aired: 'Episode_Aired',
+  score: 'Episode_Score',
+  votes: 'Episode_Votes',
+  filler: 'Filler',
+  recap: 'Recap',
+};
+
+// mal_statistics.csv: watch-status counts and the score_1 to score_10 vote histogram of each anime
+export const statisticsRowSchema = z.object({
+  MAL_ID: numeric(z.number().int().positive()).refine(id => id !== null, 'MAL id is required'),
+  Watching: voteCount,
+  Completed: voteCount,
+  On_Hold: voteCount,
+  Dropped: voteCount,
+  Plan_to_Watch: voteCount,
+  ...Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`Score_${i + 1}`, voteCount])) as Record<`Score_${number}`, typeof voteCount>,
+});
+
+export type StatisticsRow = z.infer<typeof statisticsRowSchema>;
+
+// Column names used by the scraper's statistics table
+const STATISTICS_COLUMN_ALIASES: Record<string, string> = {
+  anime_id: 'MAL_ID',
+  mal_id: 'MAL_ID',
+  watching: 'Watching',
+  completed: 'Completed',
+  on_hold: 'On_Hold',
+  dropped: 'Dropped',
+  plan_to_watch: 'Plan_to_Watch',
+  ...Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`score_${i + 1}`, `Score_${i + 1}`])),
+};
+
+// Column names used by the scraper's related_anime table
+const RELATION_COLUMN_ALIASES: Record<string, string> = {
+  anime_id: 'Anime_MAL_ID',
+  mal_id: 'Anime_MAL_ID',
+  related_anime_id: 'Related_Anime_ID',
+  related_title: 'Related_Title',
+  relation: 'Relation',
+  relation_type: 'Relation',
+};
+
+// Column names used by the scraper's recommendations table
+const RECOMMENDATION_COLUMN_ALIASES: Record<string, string> = {
+  anime_id: 'Anime_MAL_ID',
+  mal_id: 'Anime_MAL_ID',
+  recommended_anime_id: 'Recommended_Anime_ID',
+  recommended_title: 'Recommended_Title',
+  recommendation_count: 'Recommendation_Count',
+  description: 'Description',
+};
+
+// Other names the MAL id column goes by in exports
+const ID_COLUMNS = ['MAL_ID', 'mal_id', 'anime_id', 'id'];
+
+// Column names used by the comprehensive scraper export (mal_anime_comprehensive.csv)
+const COLUMN_ALIASES: Record<string, string> = {
+  English_Title: 'English',
+  Japanese_Title: 'Japanese',
+  Demographics: 'Demographic',
+  opening_themes: 'Opening_Themes',
+  ending_themes: 'Ending_Themes',
+};
+
+// The comprehensive export splits the air dates into Aired_From and Aired_To
+function toAired(row: Record<string, string>): string {
+  if (row.Aired) return row.Aired;
+  const from = row.Aired_From && row.Aired_From !== 'N/A' ? row.Aired_From.trim() : '';
+  const to = row.Aired_To && row.Aired_To !== 'N/A' ? row.Aired_To.trim() : '';
+  return from && to ? `${from} to ${to}` : from;
+}
+
+// Parse RFC 4180 CSV, keeping the line each record starts on (quoted fields may span lines)
+export function parseCsv(content: string): Array<{ line: number; values: string[] }> {
+  const records: Array<{ line: number; values: string[] }> = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    values.push(field);
+    // Skip blank lines
+    if (values.length > 1 || values[0] !== '') records.push({ line: recordLine, values });
+    values = [];
+    field = '';
+  };
+
+  const input = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || values.length > 0) endRecord();
+  return records;
+}
+
+interface IngestOptions<T> {
+  // Rename columns before validation, e.g. English_Title -> English
+  columnAliases?: Record<string, string>;
+  // Derive extra fields from the raw row before validation
+  prepare?: (row: Record<string, string>, columns: string[]) => Record<string, unknown>;
+  // Rows with the same key are duplicates; the first one wins
+  key: (row: T) => string;
+}
+
+// Validate and coerce CSV rows against a schema, quarantining malformed rows and dropping duplicates
+export function ingestCsv<T>(content: string, schema: z.ZodType<T>, options: IngestOptions<T>): IngestResult<T> {
+  const [header, ...records] = parseCsv(content);
+  if (!header) throw new Error('CSV file is empty');
+
+  const columns = header.values.map(column => column.trim());
+  const malformed: QuarantinedRow[] = [];
+  const rows: Array<{ line: number; row: Record<string, string> }> = [];
+
+  for (const { line, values } of records) {
+    const row = Object.fromEntries(columns.map((column, i) => [column, values[i] ?? '']));
+    if (values.length !== columns.length) {
+      malformed.push({ line, errors: [`Expected ${columns.length} columns, found ${values.length}`], row });
+    } else {
+      rows.push({ line, row });
+    }
+  }
+
+  const result = ingestRecords(rows, schema, options);
+  return { ...result, quarantined: [...malformed, ...result.quarantined].sort((a, b) => a.line - b.line) };
+}
+
+// Validate rows that are already split into columns (CSV records or database rows) the same way
+export function ingestRecords<T>(
+  records: Array<{ line: number; row: Record<string, string> }>,
+  schema: z.ZodType<T>,
+  options: IngestOptions<T>
+): IngestResult<T> {
+  const aliases = options.columnAliases ?? {};
+
+  const rows: T[] = [];
+  const quarantined: QuarantinedRow[] = [];
+  const seen = new Set<string>();
+  let duplicateCount = 0;
+
+  for (const { line, row: raw } of records) {
+    const row = Object.fromEntries(Object.entries(raw).map(([column, value]) => [aliases[column] ?? column, value]));
+    const columns = Object.keys(row);
+
+    const parsed = schema.safeParse(options.prepare ? options.prepare(row, columns) : row);
+    if (!parsed.success) {
+      quarantined.push({
+        line,
+        errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`),
+        row,
+      });
+      continue;
+    }
+
+    const key = options.key(parsed.data);
+    if (seen.has(key)) {
+      duplicateCount++;
+      continue;
+    }
+    seen.add(key);
+    rows.push(parsed.data);
+  }
+
+  return { rows, quarantined, duplicateCount };
+}
+
+// Identity of an anime row. Without an id column, rows with the same title and type are treated as the same anime
+export function getAnimeRowKey(row: Pick<AnimeRow, 'MAL_ID' | 'Title' | 'Type'>): string {
+  return row.MAL_ID !== null
+    ? `id:${row.MAL_ID}`
+    : `title:${row.Title.toLowerCase()}|${row.Type.toLowerCase()}`;
+}
+
+// Anime rows are deduplicated by MAL id
+const ANIME_INGEST_OPTIONS: IngestOptions<AnimeRow> = {
+  columnAliases: COLUMN_ALIASES,
+  prepare: (row, columns) => {
+    const idColumn = ID_COLUMNS.find(column => columns.includes(column));
+    return { ...row, MAL_ID: idColumn ? row[idColumn] : null, Aired: toAired(row) };
+  },
+  key: getAnimeRowKey,
+};
+
+export function ingestAnimeCsv(content: string): IngestResult<AnimeRow> {
+  return ingestCsv(content, animeRowSchema, ANIME_INGEST_OPTIONS);
+}
+
+// Rows read from the scraper's anime_data table, with the column names of its CSV export
+export function ingestAnimeRecords(records: Array<{ line: number; row: Record<string, string> }>): IngestResult<AnimeRow> {
+  return ingestRecords(records, animeRowSchema, ANIME_INGEST_OPTIONS);
+}
+
+// Character rows are deduplicated per character and anime
+export function ingestCharacterCsv(content: string): IngestResult<CharacterRow> {
+  return ingestCsv(content, characterRowSchema, {
+    key: row => `${row.Character_MAL_ID ?? row.Character_Name.toLowerCase()}|${row.Anime_Title.toLowerCase()}`,
+  });
+}
+
+// Staff rows are deduplicated per person and anime
+export function ingestStaffCsv(content: string): IngestResult<StaffRow> {
+  return ingestCsv(content, staffRowSchema, {
+    key: row => `${row.Staff_MAL_ID ?? row.Staff_Name.toLowerCase()}|${row.Anime_Title.toLowerCase()}`,
+  });
+}
+
+// Review rows are deduplicated by review id, or by author and anime
+export function ingestReviewCsv(content: string): IngestResult<ReviewRow> {
+  return ingestCsv(content, reviewRowSchema, {
+    key: row => row.Review_ID !== null
+      ? `id:${row.Review_ID}`
+      : `user:${row.Username.toLowerCase()}|${row.Anime_Title.toLowerCase()}`,
+  });
+}
+
+// Recommendation rows are deduplicated per anime pair
+export function ingestRecommendationCsv(content: string): IngestResult<RecommendationRow> {
+  return ingestCsv(content, recommendationRowSchema, {
+    columnAliases: RECOMMENDATION_COLUMN_ALIASES,
+    key: row => `${row.Anime_MAL_ID}|${row.Recommended_Anime_ID}`,
+  });
+}
+
+// Relation rows are deduplicated per anime pair and relation type
+export function ingestRelationCsv(content: string): IngestResult<RelationRow> {
+  return ingestCsv(content, relationRowSchema, {
+    columnAliases: RELATION_COLUMN_ALIASES,
+    key: row => `${row.Anime_MAL_ID}|${row.Related_Anime_ID}|${row.Relation.toLowerCase()}`,
+  });
+}
+
+// Statistics rows are deduplicated by MAL id
+export function ingestStatisticsCsv(content: string): IngestResult<StatisticsRow> {
+  return ingestCsv(content, statisticsRowSchema, {
+    columnAliases: STATISTICS_COLUMN_ALIASES,
+    key: row => `${row.MAL_ID}`,
+  });
+}
+
+// Episode rows are deduplicated per anime and episode number
+export function ingestEpisodeCsv(content: string): IngestResult<EpisodeRow> {
+  return ingestCsv(content, episodeRowSchema, {
+    columnAliases: EPISODE_COLUMN_ALIASES,
+    key: row => `${row.Anime_MAL_ID}|${row.Episode_Number}`,
+  });
+}
+
+export function computeChecksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function getManifestPath(datasetPath: string): string {
+  return datasetPath.replace(/\.json$/, '.manifest.json');
+}
+
+export async function readDatasetManifest(datasetPath: string): Promise<DatasetManifest | null> {
+  try {
+    return JSON.parse(await readFile(getManifestPath(datasetPath), 'utf-8')) as DatasetManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`Dataset manifest ${getManifestPath(datasetPath)} is unreadable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Versioned file a dataset version is written to, e.g. anime-data.v7.json for version 7 of anime-data.json
+function getVersionedPath(datasetPath: string, version: number): string {
+  return datasetPath.replace(/\.json$/, `.v${version}.json`);
+}
+
+// File holding a dataset's rows: the one its manifest points to, or the dataset path itself
+// for hand-made datasets and manifests written before versioning
+export function resolveDatasetFile(datasetPath: string, manifest: DatasetManifest | null): string {
+  return manifest?.file ? path.join(path.dirname(datasetPath), path.basename(manifest.file)) : datasetPath;
+}
+
+// Changes whenever the dataset is rewritten: the manifest's modification time, or the dataset's when it has none
+export async function getDatasetMtime(datasetPath: string): Promise<number> {
+  try {
+    return (await stat(getManifestPath(datasetPath))).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  return (await stat(datasetPath)).mtimeMs;
+}
+
+// Versions kept on disk: the current one and the one before, which a server may still be reading
+const DATASET_VERSIONS_KEPT = 2;
+
+async function removeOldVersions(datasetPath: string, version: number): Promise<void> {
+  const dir = path.dirname(datasetPath);
+  const prefix = path.basename(datasetPath).replace(/\.json$/, '.v');
+  for (const name of await readdir(dir)) {
+    const match = name.startsWith(prefix) ? /^(\d+)\.json$/.exec(name.slice(prefix.length)) : null;
+    if (match && Number(match[1]) <= version - DATASET_VERSIONS_KEPT) {
+      await rm(path.join(dir, name), { force: true });
+    }
+  }
+}
+
+// Write the dataset to a new versioned file, the quarantine report, and then the manifest pointing to the new file.
+// The manifest is swapped in with a single rename, so a running server reads either the previous version or the new one
+export async function writeDataset<T>(result: IngestResult<T>, datasetPath: string, source: string): Promise<DatasetManifest> {
+  const previous = await readDatasetManifest(datasetPath).catch(() => null);
+  const content = JSON.stringify(result.rows);
+  const version = (previous?.version ?? 0) + 1;
+  const dataPath = getVersionedPath(datasetPath, version);
+
+  const manifest: DatasetManifest = {
+    schemaVersion: DATASET_SCHEMA_VERSION,
+    version,
+    rowCount: result.rows.length,
+    quarantinedCount: result.quarantined.length,
+    duplicateCount: result.duplicateCount,
+    checksum: computeChecksum(content),
+    source: path.basename(source),
+    builtAt: new Date().toISOString(),
+    file: path.basename(dataPath),
+  };
+
+  const manifestPath = getManifestPath(datasetPath);
+  await writeFile(dataPath, content, 'utf-8');
+  await writeFile(
+    datasetPath.replace(/\.json$/, '.quarantine.json'),
+    JSON.stringify(result.quarantined, null, 2),
+    'utf-8'
+  );
+  await writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2), 'utf-8');
+  await rename(`${manifestPath}.tmp`, manifestPath);
+  await removeOldVersions(datasetPath, version);
+
+  return manifest;
+}
+
+// Check a dataset file against its manifest, throwing when it does not match
+export function verifyDataset(content: string, rowCount: number, manifest: DatasetManifest): void {
+  if (manifest.schemaVersion !== DATASET_SCHEMA_VERSION) {
+    throw new Error(`Dataset schema version ${manifest.schemaVersion} is not supported (expected ${DATASET_SCHEMA_VERSION}). Re-run the ingestion`);
+  }
+  if (computeChecksum(content) !== manifest.checksum) {
+    throw new Error('Dataset checksum does not match its manifest; the file is corrupt or was edited by hand');
+  }
+  if (rowCount !== manifest.rowCount) {
+    throw new Error(`Dataset has ${rowCount} rows but its manifest expects ${manifest.rowCount}`);
+  }
+}
+
+// Read a dataset with its manifest and check that they match; the manifest is null when there is none.
+// The manifest is read first and names the file to read, so a dataset written in the meantime is never mixed in
+export async function readVerifiedDataset<T>(
+  datasetPath: string,
+  parse: (raw: string) => T[]
+): Promise<{ rows: T[]; manifest: DatasetManifest | null }> {
+  const manifest = await readDatasetManifest(datasetPath);
+  const raw = await readFile(resolveDatasetFile(datasetPath, manifest), 'utf-8');
+  const rows = parse(raw);
+  if (manifest) verifyDataset(raw, rows.length, manifest);
+  return { rows, manifest };
+}
+
+// Counters that move with every scrape; reporting them would mark every title as changed
+const VOLATILE_FIELDS = new Set<string>(['Score_Count', 'Popularity', 'Members', 'Favorites']);
+
+// Changelog entries kept next to the dataset, newest first
+export const MAX_CHANGELOG_ENTRIES = 20;
+
+const toTitleRef = (row: AnimeRow): TitleRef => ({ malId: row.MAL_ID, title: row.Title });
+
+export function diffAnimeRows(previous: AnimeRow[], next: AnimeRow[]): DatasetDiff {
+  const before = new Map(previous.map(row => [getAnimeRowKey(row), row]));
+  const after = new Set(next.map(getAnimeRowKey));
+  const fields = (Object.keys(animeRowSchema.shape) as Array<keyof AnimeRow>).filter(field => !VOLATILE_FIELDS.has(field));
+  const diff: DatasetDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+  for (const row of next) {
+    const old = before.get(getAnimeRowKey(row));
+    if (!old) {
+      diff.added.push(toTitleRef(row));
+      continue;
+    }
+
+    // Fields the previous dataset did not have yet (older schema versions) are not reported
+    const changes = fields
+      .filter(field => field in old && JSON.stringify(old[field]) !== JSON.stringify(row[field]))
+      .map(field => ({ field, from: old[field], to: row[field] }));
+    if (changes.length > 0) diff.changed.push({ ...toTitleRef(row), changes });
+    else diff.unchangedCount++;
+  }
+
+  for (const [key, row] of before) {
+    if (!after.has(key)) diff.removed.push(toTitleRef(row));
+  }
+
+  return diff;
+}
+
+// Apply a partial export on top of the current rows: its titles replace theirs or are appended, nothing is removed
+export function mergeAnimeRows(previous: AnimeRow[], updates: AnimeRow[]): AnimeRow[] {
+  const updated = new Map(updates.map(row => [getAnimeRowKey(row), row]));
+  const existing = new Set(previous.map(getAnimeRowKey));
+  return [
+    ...previous.map(row => updated.get(getAnimeRowKey(row)) ?? row),
+    ...updates.filter(row => !existing.has(getAnimeRowKey(row))),
+  ];
+}
+
+export function getChangelogPath(datasetPath: string): string {
+  return datasetPath.replace(/\.json$/, '.changes.json');
+}
+
+// Changelog of a dataset, newest first; empty before the first refresh
+export async function readChangelog(datasetPath: string): Promise<DatasetChange[]> {
+  try {
+    return JSON.parse(await readFile(getChangelogPath(datasetPath), 'utf-8')) as DatasetChange[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw new Error(`Dataset changelog ${getChangelogPath(datasetPath)} is unreadable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Rows of the dataset being replaced; none before the first ingestion. The schema version is not checked,
+// since a refresh is how a dataset moves to a new one
+async function readCurrentRows(datasetPath: string): Promise<AnimeRow[]> {
+  const manifest = await readDatasetManifest(datasetPath);
+  const filePath = resolveDatasetFile(datasetPath, manifest);
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  if (manifest && computeChecksum(raw) !== manifest.checksum) {
+    throw new Error(`Current dataset ${filePath} does not match its manifest; delete it to rebuild from scratch`);
+  }
+  const rows = JSON.parse(raw);
+  if (!Array.isArray(rows)) {
+    throw new Error(`Current dataset ${filePath} must contain an array of anime`);
+  }
+  return rows as AnimeRow[];
+}
+
+export interface RefreshOptions {
+  merge?: boolean; // the export only holds new and updated titles; keep every other title
+  dryRun?: boolean; // compute the diff without writing anything
+}
+
+// Diff an ingested export against the current dataset and swap the new dataset in with writeDataset.
+// The changelog entry is added once the dataset is in place, so it never describes a dataset that was not written
+export async function refreshAnimeDataset(
+  result: IngestResult<AnimeRow>,
+  datasetPath: string,
+  source: string,
+  options: RefreshOptions = {}
+): Promise<{ change: DatasetChange; manifest: DatasetManifest | null }> {
+  const previousRows = await readCurrentRows(datasetPath);
+  const previous = await readDatasetManifest(datasetPath).catch(() => null);
+  const rows = options.merge ? mergeAnimeRows(previousRows, result.rows) : result.rows;
+  const diff = diffAnimeRows(previousRows, rows);
+
+  if (options.dryRun) {
+    return {
+      change: {
+        version: (previous?.version ?? 0) + 1,
+        previousVersion: previous?.version ?? null,
+        source: path.basename(source),
+        builtAt: new Date().toISOString(),
+        ...diff,
+      },
+      manifest: null,
+    };
+  }
+
+  const manifest = await writeDataset({ ...result, rows }, datasetPath, source);
+  const change: DatasetChange = {
+    version: manifest.version,
+    previousVersion: previous?.version ?? null,
+    source: manifest.source,
+    builtAt: manifest.builtAt,
+    ...diff,
+  };
+
+  const changelogPath = getChangelogPath(datasetPath);
+  const changelog = [change, ...(await readChangelog(datasetPath).catch(() => []))].slice(0, MAX_CHANGELOG_ENTRIES);
+  await writeFile(`${changelogPath}.tmp`, JSON.stringify(changelog, null, 2), 'utf-8');
+  await rename(`${changelogPath}.tmp`, changelogPath);
+
+  return { change, manifest };
+}
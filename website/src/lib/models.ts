@@ -0,0 +1,134 @@
+import { google } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { wrapLanguageModel, type LanguageModel } from 'ai';
+import path from 'path';
+import { createRecordingMiddleware, createReplayModel } from './replay';
+
+// Chat models the route can serve, keyed by the id the client sends as `model`
+
+export type ModelProvider = 'google' | 'openai-compatible' | 'replay';
+
+export interface ModelCapabilities {
+  tools: boolean; // can call the anime tools; without them the model answers from its own knowledge
+  reasoning: boolean; // streams its reasoning before answering
+  contextWindow: number; // input tokens
+}
+
+export interface ModelDefinition {
+  id: string;
+  name: string; // label in the model picker
+  provider: ModelProvider;
+  providerModelId: string; // name the provider knows the model by
+  capabilities: ModelCapabilities;
+}
+
+// What the picker needs, without the provider details
+export type ModelOption = Pick<ModelDefinition, 'id' | 'name' | 'provider' | 'capabilities'>;
+
+const DEFAULT_MODEL_ID = 'google/gemini-2.5-flash';
+
+const GEMINI_MODELS: ModelDefinition[] = [
+  {
+    id: 'google/gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    provider: 'google',
+    providerModelId: 'gemini-2.5-flash',
+    capabilities: { tools: true, reasoning: true, contextWindow: 1_048_576 },
+  },
+  {
+    id: 'google/gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    provider: 'google',
+    providerModelId: 'gemini-2.5-pro',
+    capabilities: { tools: true, reasoning: true, contextWindow: 1_048_576 },
+  },
+];
+
+// A model on a local OpenAI-compatible server (Ollama, llama.cpp, LM Studio, ...), configured by environment:
+// ANIME_LOCAL_MODEL_URL + ANIME_LOCAL_MODEL, optionally ANIME_LOCAL_MODEL_NAME, ANIME_LOCAL_MODEL_API_KEY,
+// ANIME_LOCAL_MODEL_CONTEXT (default 8192), ANIME_LOCAL_MODEL_TOOLS=false and ANIME_LOCAL_MODEL_REASONING=true
+function getLocalModel(): ModelDefinition | null {
+  const baseURL = process.env.ANIME_LOCAL_MODEL_URL;
+  const model = process.env.ANIME_LOCAL_MODEL;
+  if (!baseURL || !model) return null;
+
+  return {
+    id: `local/${model}`,
+    name: process.env.ANIME_LOCAL_MODEL_NAME || `${model} (local)`,
+    provider: 'openai-compatible',
+    providerModelId: model,
+    capabilities: {
+      tools: process.env.ANIME_LOCAL_MODEL_TOOLS !== 'false',
+      reasoning: process.env.ANIME_LOCAL_MODEL_REASONING === 'true',
+      contextWindow: Number(process.env.ANIME_LOCAL_MODEL_CONTEXT) || 8192,
+    },
+  };
+}
+
+// ANIME_MOCK_FIXTURES=<dir> replaces every model with one that replays the chat fixtures in that directory
+function getReplayModel(): ModelDefinition | null {
+  const dir = process.env.ANIME_MOCK_FIXTURES;
+  if (!dir) return null;
+
+  return {
+    id: 'replay/fixtures',
+    name: `Replay (${path.basename(dir)})`,
+    provider: 'replay',
+    providerModelId: path.resolve(dir),
+    capabilities: { tools: true, reasoning: true, contextWindow: 128_000 },
+  };
+}
+
+export function listModels(): ModelDefinition[] {
+  const replay = getReplayModel();
+  if (replay) return [replay];
+
+  const local = getLocalModel();
+  return local ? [...GEMINI_MODELS, local] : GEMINI_MODELS;
+}
+
+export function getDefaultModelId(): string {
+  return getReplayModel()?.id ?? DEFAULT_MODEL_ID;
+}
+
+export function getModelOptions(): ModelOption[] {
+  return listModels().map(({ id, name, provider, capabilities }) => ({ id, name, provider, capabilities }));
+}
+
+// The model for a client-sent id, the default when none was sent, or null for an unknown id.
+// Replays serve every request, whichever model the client picked before
+export function resolveModel(id?: string): ModelDefinition | null {
+  const replay = getReplayModel();
+  if (replay) return replay;
+  return listModels().find(model => model.id === (id || DEFAULT_MODEL_ID)) ?? null;
+}
+
+// One provider per local server, reused across requests
+let localProvider: { baseURL: string; provider: ReturnType<typeof createOpenAICompatible> } | null = null;
+
+function createLanguageModel(model: ModelDefinition): Exclude<LanguageModel, string> {
+  if (model.provider === 'replay') {
+    return createReplayModel(model.providerModelId);
+  }
+  if (model.provider === 'google') {
+    return google(model.providerModelId);
+  }
+
+  const baseURL = process.env.ANIME_LOCAL_MODEL_URL!;
+  if (!localProvider || localProvider.baseURL !== baseURL) {
+    localProvider = {
+      baseURL,
+      provider: createOpenAICompatible({ name: 'local', baseURL, apiKey: process.env.ANIME_LOCAL_MODEL_API_KEY }),
+    };
+  }
+  return localProvider.provider(model.providerModelId);
+}
+
+// ANIME_RECORD_FIXTURES=<dir> saves what a real model streams as chat fixtures for later replays
+export function getLanguageModel(model: ModelDefinition): LanguageModel {
+  const languageModel = createLanguageModel(model);
+  const recordDir = process.env.ANIME_RECORD_FIXTURES;
+  return recordDir && model.provider !== 'replay'
+    ? wrapLanguageModel({ model: languageModel, middleware: createRecordingMiddleware(recordDir) })
+    : languageModel;
+}
@@ -0,0 +1,429 @@
+import {
+  getVocabulary,
+  resolveVocabularyValue,
+  type Anime,
+  type AnimeFilters,
+  type RangeFilter,
+  type SortOption,
+  type VocabularyField,
+} from './anime';
+
+// Rule-based parser for plain queries like "short comedy movies from the 2010s rated above 8".
+// Phrases are mapped onto AnimeFilters with the dataset's own vocabulary, so simple queries
+// can be answered without a model; anything it does not understand is reported back
+
+// A phrase of the query and what it was read as, e.g. 'comedies' -> 'genre Comedy'
+export interface ParsedPhrase {
+  phrase: string;
+  meaning: string;
+}
+
+export interface ParsedQuery {
+  filters: AnimeFilters;
+  understood: ParsedPhrase[];
+  unparsed: string[]; // phrases that matched no rule
+  complete: boolean; // every phrase was understood, so the filters stand for the whole query
+}
+
+// Fields whose values are recognized, in the order they are tried
+const PHRASE_FIELDS: Array<{ field: VocabularyField; key: 'genres' | 'themes' | 'demographic' | 'type' | 'status'; label: string }> = [
+  { field: 'Genres', key: 'genres', label: 'genre' },
+  { field: 'Themes', key: 'themes', label: 'theme' },
+  { field: 'Demographic', key: 'demographic', label: 'demographic' },
+  { field: 'Type', key: 'type', label: 'type' },
+  { field: 'Status', key: 'status', label: 'status' },
+];
+
+// Longest phrase looked up in the vocabulary, e.g. 'award winning' or 'slice of life'
+const MAX_PHRASE_WORDS = 4;
+
+// "short" and "long", in episodes for series and in minutes for movies
+const SHORT_SERIES_EPISODES = 13;
+const LONG_SERIES_EPISODES = 50;
+const SHORT_MOVIE_MINUTES = 90;
+const LONG_MOVIE_MINUTES = 120;
+
+// Score that "highly rated" and "acclaimed" stand for
+const HIGH_SCORE = 8;
+
+// Words that carry no criteria of their own
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'some', 'any', 'all', 'me', 'i', 'im', 'want', 'wanna', 'to', 'watch', 'see',
+  'show', 'shows', 'anime', 'animes', 'title', 'titles', 'recommend', 'recommendations', 'suggest',
+  'find', 'give', 'list', 'looking', 'for', 'with', 'and', 'or', 'that', 'are', 'is', 'was', 'were',
+  'of', 'in', 'from', 'on', 'please', 'which', 'what', 'can', 'you', 'something', 'stuff', 'genre',
+  'genres', 'type', 'kind', 'ones', 'one', 'also', 'but',
+]);
+
+// Adjectives for genres, e.g. "funny romantic shows"
+const ADJECTIVES: Record<string, string> = {
+  funny: 'comedy',
+  comedic: 'comedy',
+  romantic: 'romance',
+  scary: 'horror',
+  creepy: 'horror',
+  mysterious: 'mystery',
+  dramatic: 'drama',
+  magical: 'fantasy',
+};
+
+// Words that exclude the value right after them, e.g. "no romance" or "without isekai"
+const NEGATIONS = new Set(['no', 'not', 'without', 'excluding', 'except', 'minus']);
+
+// "above 8" leaves out 8 itself, "at least 8" keeps it
+const COMPARATORS: Record<string, { bound: 'min' | 'max'; inclusive: boolean }> = {
+  above: { bound: 'min', inclusive: false },
+  over: { bound: 'min', inclusive: false },
+  'higher than': { bound: 'min', inclusive: false },
+  'greater than': { bound: 'min', inclusive: false },
+  'more than': { bound: 'min', inclusive: false },
+  'at least': { bound: 'min', inclusive: true },
+  below: { bound: 'max', inclusive: false },
+  under: { bound: 'max', inclusive: false },
+  'lower than': { bound: 'max', inclusive: false },
+  'less than': { bound: 'max', inclusive: false },
+  'fewer than': { bound: 'max', inclusive: false },
+  'at most': { bound: 'max', inclusive: true },
+  'up to': { bound: 'max', inclusive: true },
+};
+const COMPARATOR_PATTERN = Object.keys(COMPARATORS).sort((a, b) => b.length - a.length).join('|');
+
+// Units that follow a number which is not a score
+const NOT_SCORE_UNITS = '(?!\\s*(?:episodes?|eps?|hours?|hrs?|h|minutes?|mins?)\\b)';
+
+// RangeFilter bounds are inclusive, so an exclusive bound steps by the smallest step of its value:
+// one episode or minute, or 0.01 of score
+function toBound(comparator: string, value: number, step: number): { bound: 'min' | 'max'; value: number; symbol: string } {
+  const { bound, inclusive } = COMPARATORS[comparator];
+  const symbol = `${bound === 'min' ? '>' : '<'}${inclusive ? '=' : ''}`;
+  if (inclusive) return { bound, value, symbol };
+  return { bound, value: Math.round((value + (bound === 'min' ? step : -step)) * 100) / 100, symbol };
+}
+
+function readScore(comparator: string, rawValue: string, state: ParseState): string | null {
+  const value = Number(rawValue);
+  if (value > 10) return null;
+  const { bound, value: limit, symbol } = toBound(comparator, value, 0.01);
+  state.score = { ...state.score, [bound]: limit };
+  return `score ${symbol} ${value}`;
+}
+
+// Criteria read from the query so far, before they are turned into AnimeFilters
+interface ParseState {
+  selections: Record<string, { values: string[]; exclude: string[] }>;
+  score?: RangeFilter;
+  episodes?: RangeFilter;
+  runtime?: RangeFilter; // total minutes
+  aired?: { start?: string; end?: string };
+  length?: 'short' | 'long';
+  sort?: SortOption;
+  limit?: number;
+  understood: Array<ParsedPhrase & { index: number }>;
+}
+
+// Rules read straight from the text, most specific first; each consumes the phrase it matched
+const RULES: Array<{ pattern: RegExp; apply: (match: RegExpExecArray, state: ParseState) => string | null }> = [
+  // "under 13 episodes" (12 at most), "at least 24 eps"
+  {
+    pattern: new RegExp(`\\b(${COMPARATOR_PATTERN})\\s+(\\d+)\\s+(?:episodes?|eps?)\\b`, 'g'),
+    apply: (match, state) => {
+      const count = Number(match[2]);
+      const { bound, value } = toBound(match[1], count, 1);
+      state.episodes = { ...state.episodes, [bound]: value };
+      return `${bound === 'min' ? 'at least' : 'at most'} ${value} episodes`;
+    },
+  },
+  // "under 2 hours", "at least 90 minutes"
+  {
+    pattern: new RegExp(`\\b(${COMPARATOR_PATTERN})\\s+(\\d+(?:\\.\\d+)?)\\s*(hours?|hrs?|h|minutes?|mins?)\\b`, 'g'),
+    apply: (match, state) => {
+      const minutes = Math.round(Number(match[2]) * (match[3].startsWith('h') ? 60 : 1));
+      const { bound, value, symbol } = toBound(match[1], minutes, 1);
+      state.runtime = { ...state.runtime, [bound]: value };
+      return `runtime ${symbol} ${minutes} min`;
+    },
+  },
+  // "24+ episodes", "12 episodes or less"
+  {
+    pattern: /\b(\d+)\s*(\+|or more|or fewer|or less)?\s+(?:episodes?|eps?)(?:\s+(or more|or fewer|or less))?\b/g,
+    apply: (match, state) => {
+      const count = Number(match[1]);
+      const qualifier = match[2] ?? match[3];
+      if (!qualifier) {
+        state.episodes = { min: count, max: count };
+        return `${count} episodes`;
+      }
+      const bound = qualifier === '+' || qualifier === 'or more' ? 'min' : 'max';
+      state.episodes = { ...state.episodes, [bound]: count };
+      return `${bound === 'min' ? 'at least' : 'at most'} ${count} episodes`;
+    },
+  },
+  // "rated above 8", "with a score of at least 7.5"
+  {
+    pattern: new RegExp(`\\b(?:rated|scored|scoring|score|rating|with a score of|with a rating of)\\s+(${COMPARATOR_PATTERN})\\s+(\\d+(?:\\.\\d+)?)\\b${NOT_SCORE_UNITS}`, 'g'),
+    apply: (match, state) => readScore(match[1], match[2], state),
+  },
+  // "rated 8+", "8+ score", "rated 7 or higher"
+  {
+    pattern: /\b(?:(?:rated|scored|score|rating)\s+)?(\d+(?:\.\d+)?)\s*(\+|or (?:higher|above|more|better))(?:\s+(?:score|rating))?/g,
+    apply: (match, state) => {
+      const value = Number(match[1]);
+      if (value > 10) return null;
+      state.score = { ...state.score, min: value };
+      return `score >= ${value}`;
+    },
+  },
+  {
+    pattern: /\b(?:highly|well|critically)[\s-]rated\b|\bacclaimed\b/g,
+    apply: (_match, state) => {
+      state.score = { ...state.score, min: HIGH_SCORE };
+      return `score >= ${HIGH_SCORE}`;
+    },
+  },
+  // "top 10", "best 5"
+  {
+    pattern: /\b(?:top|best)\s+(\d+)\b/g,
+    apply: (match, state) => {
+      state.limit = Number(match[1]);
+      state.sort = { field: 'Score', direction: 'desc' };
+      return `${match[1]} highest scored`;
+    },
+  },
+  {
+    pattern: /\b(?:top[\s-]rated|highest[\s-]rated|best[\s-]rated|best|top)\b/g,
+    apply: (_match, state) => {
+      state.sort = { field: 'Score', direction: 'desc' };
+      return 'sorted by score';
+    },
+  },
+  {
+    pattern: /\b(?:most\s+)?popular\b/g,
+    apply: (_match, state) => {
+      state.sort = { field: 'Popularity', direction: 'asc' };
+      return 'sorted by popularity';
+    },
+  },
+  {
+    pattern: /\b(?:newest|latest|most recent)\b/g,
+    apply: (_match, state) => {
+      state.sort = { field: 'Aired', direction: 'desc' };
+      return 'newest first';
+    },
+  },
+  // "between 2010 and 2015", "2010-2015"
+  {
+    pattern: /\b(?:between\s+|from\s+)?((?:19|20)\d\d)\s*(?:-|to|and|through)\s*((?:19|20)\d\d)\b/g,
+    apply: (match, state) => {
+      state.aired = { start: match[1], end: match[2] };
+      return `aired ${match[1]}-${match[2]}`;
+    },
+  },
+  // "the 2010s", "90s", "'80s"
+  {
+    pattern: /(?:\bthe\s+)?(?:\b((?:19|20)\d)0|'?\b(\d)0)'?s\b/g,
+    apply: (match, state) => {
+      const decade = match[1]
+        ? Number(`${match[1]}0`)
+        : Number(match[2]) >= 3 ? 1900 + Number(match[2]) * 10 : 2000 + Number(match[2]) * 10;
+      state.aired = { start: String(decade), end: String(decade + 9) };
+      return `aired ${decade}-${decade + 9}`;
+    },
+  },
+  // "after 2015", "since 2015", "before 2000", "in 2016"
+  {
+    pattern: /\b(after|since|before|from|in)?\s*\b((?:19|20)\d\d)\b/g,
+    apply: (match, state) => {
+      const year = Number(match[2]);
+      switch (match[1]) {
+        case 'after':
+          state.aired = { ...state.aired, start: String(year + 1) };
+          return `aired from ${year + 1}`;
+        case 'since':
+          state.aired = { ...state.aired, start: String(year) };
+          return `aired from ${year}`;
+        case 'before':
+          state.aired = { ...state.aired, end: String(year - 1) };
+          return `aired until ${year - 1}`;
+        default:
+          state.aired = { start: String(year), end: String(year) };
+          return `aired in ${year}`;
+      }
+    },
+  },
+  {
+    pattern: /\b(short|shorter|quick|long|longer|lengthy|long-running)\b/g,
+    apply: (match, state) => {
+      state.length = ['short', 'shorter', 'quick'].includes(match[1]) ? 'short' : 'long';
+      // Described once the type is known, see describeLength
+      return state.length;
+    },
+  },
+  // A bare "above 8" is a score only at the end of the query, once the other rules have taken their
+  // phrases; "more than 3 seasons" is left to the model
+  {
+    pattern: new RegExp(`\\b(${COMPARATOR_PATTERN})\\s+(\\d+(?:\\.\\d+)?)\\s*$`, 'g'),
+    apply: (match, state) => readScore(match[1], match[2], state),
+  },
+];
+
+// Plural and singular forms to look up, e.g. 'comedies' -> 'comedy', 'movies' -> 'movie'
+function getWordForms(phrase: string): string[] {
+  const forms = [phrase];
+  if (phrase.endsWith('ies')) forms.push(`${phrase.slice(0, -3)}y`);
+  if (phrase.endsWith('es')) forms.push(phrase.slice(0, -2));
+  if (phrase.endsWith('s')) forms.push(phrase.slice(0, -1));
+  return forms;
+}
+
+function findVocabularyValue(data: Anime[], phrase: string): { field: typeof PHRASE_FIELDS[number]; value: string } | null {
+  const vocabulary = getVocabulary(data);
+  for (const form of [...getWordForms(phrase), ADJECTIVES[phrase] ?? '']) {
+    if (!form) continue;
+    for (const field of PHRASE_FIELDS) {
+      const value = resolveVocabularyValue(vocabulary, field.field, form);
+      if (value) return { field, value };
+    }
+  }
+  return null;
+}
+
+// Read the remaining words left to right, matching the longest vocabulary phrase at each position
+function parseVocabulary(data: Anime[], text: string, state: ParseState): Array<{ phrase: string; index: number }> {
+  const words = Array.from(text.matchAll(/[a-z0-9][a-z0-9'+-]*/g), match => ({ word: match[0], index: match.index ?? 0 }));
+  const unparsed: Array<{ phrase: string; index: number }> = [];
+  let negated = false;
+
+  for (let i = 0; i < words.length;) {
+    const { word, index } = words[i];
+    if (NEGATIONS.has(word)) {
+      negated = true;
+      i++;
+      continue;
+    }
+
+    let matched = false;
+    for (let n = Math.min(MAX_PHRASE_WORDS, words.length - i); n >= 1; n--) {
+      const phrase = words.slice(i, i + n).map(entry => entry.word).join(' ');
+      const found = findVocabularyValue(data, phrase);
+      if (!found) continue;
+
+      const selection = state.selections[found.field.key] ?? { values: [], exclude: [] };
+      (negated ? selection.exclude : selection.values).push(found.value);
+      state.selections[found.field.key] = selection;
+      state.understood.push({
+        phrase: `${negated ? `${words[i - 1].word} ` : ''}${phrase}`,
+        meaning: `${negated ? 'not ' : ''}${found.field.label} ${found.value}`,
+        index: negated ? words[i - 1].index : index,
+      });
+      i += n;
+      matched = true;
+      break;
+    }
+    if (matched) {
+      negated = false;
+      continue;
+    }
+
+    // A negation that led nowhere is reported with the word after it
+    const start = negated ? words[i - 1] : words[i];
+    negated = false;
+    i++;
+    if (STOPWORDS.has(word)) continue;
+
+    // Unknown words separated by stopwords at most are reported as one phrase, e.g. 'like attack on titan'
+    const previous = unparsed[unparsed.length - 1];
+    const gap = previous ? text.slice(previous.index + previous.phrase.length, start.index).trim() : null;
+    if (previous && gap !== null && gap.split(/\s+/).every(gapWord => gapWord === '' || STOPWORDS.has(gapWord))) {
+      previous.phrase = text.slice(previous.index, index + word.length);
+    } else {
+      unparsed.push({ phrase: text.slice(start.index, index + word.length), index: start.index });
+    }
+  }
+  return unparsed;
+}
+
+// The range "short" or "long" stands for: a runtime for movies, an episode count for anything else.
+// None when the query gives that bound itself, e.g. "short shows with 24+ episodes"
+function getLengthRange(state: ParseState): { key: 'episodes' | 'totalRuntimeMinutes'; range: RangeFilter } | null {
+  if (!state.length) return null;
+  const types = state.selections.type?.values ?? [];
+  if (types.length > 0 && types.every(type => type === 'Movie')) {
+    if (state.runtime) return null;
+    return { key: 'totalRuntimeMinutes', range: state.length === 'short' ? { max: SHORT_MOVIE_MINUTES } : { min: LONG_MOVIE_MINUTES } };
+  }
+  if (state.episodes) return null;
+  return { key: 'episodes', range: state.length === 'short' ? { max: SHORT_SERIES_EPISODES } : { min: LONG_SERIES_EPISODES } };
+}
+
+function toFilters(state: ParseState, anyOf: boolean): AnimeFilters {
+  const filters: AnimeFilters = {};
+
+  for (const [key, { values, exclude }] of Object.entries(state.selections)) {
+    // "comedy romance" asks for both genres; "comedy or romance" and several types ask for either
+    const matchAny = key === 'type' || key === 'status' || key === 'demographic' || anyOf;
+    filters[key as 'genres'] = {
+      ...(values.length > 0 ? { values } : {}),
+      ...(exclude.length > 0 ? { exclude } : {}),
+      matchAny,
+      matchMode: 'exact',
+    };
+  }
+  if (state.score) filters.score = state.score;
+  if (state.aired) filters.aired = state.aired;
+  if (state.episodes) filters.episodes = state.episodes;
+  if (state.runtime) filters.totalRuntimeMinutes = state.runtime;
+
+  const length = getLengthRange(state);
+  if (length) filters[length.key] = length.range;
+
+  if (state.sort) filters.sort = [state.sort];
+  if (state.limit) filters.limit = state.limit;
+  return filters;
+}
+
+function describeLength(state: ParseState): string {
+  const length = getLengthRange(state);
+  if (!length) return `${state.length}, left to the length given in the query`;
+  const { key, range } = length;
+  const unit = key === 'episodes' ? 'episodes' : 'min';
+  const prefix = key === 'episodes' ? '' : 'runtime ';
+  return range.max !== undefined ? `${prefix}<= ${range.max} ${unit}` : `${prefix}>= ${range.min} ${unit}`;
+}
+
+// Parse a plain-English query into filters, with the phrases that were and were not understood
+export function parseAnimeQuery(data: Anime[], query: string): ParsedQuery {
+  let text = query.toLowerCase().replace(/[\u2018\u2019]/g, "'").replace(/[^a-z0-9'+.\-\s]/g, ' ');
+  const state: ParseState = { selections: {}, understood: [] };
+
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    const matches: RegExpExecArray[] = [];
+    for (let match = rule.pattern.exec(text); match; match = rule.pattern.exec(text)) {
+      matches.push(match);
+    }
+    for (const match of matches) {
+      const meaning = rule.apply(match, state);
+      if (meaning === null) continue;
+      state.understood.push({ phrase: match[0].trim(), meaning, index: match.index });
+      // Blank the phrase out, keeping positions, so later rules and the vocabulary skip it
+      text = text.slice(0, match.index) + ' '.repeat(match[0].length) + text.slice(match.index + match[0].length);
+    }
+  }
+
+  const anyOf = /\bor\b/.test(text);
+  const unparsed = parseVocabulary(data, text.replace(/\./g, ' '), state);
+  const filters = toFilters(state, anyOf);
+  const understood = [...state.understood]
+    .sort((a, b) => a.index - b.index)
+    .map(({ phrase, meaning }) => ({
+      phrase,
+      meaning: meaning === 'short' || meaning === 'long' ? describeLength(state) : meaning,
+    }));
+
+  return {
+    filters,
+    understood,
+    unparsed: unparsed.map(({ phrase }) => phrase.replace(/\s+/g, ' ')),
+    complete: understood.length > 0 && unparsed.length === 0,
+  };
+}
@@ -0,0 +1,207 @@
+import MiniSearch from 'minisearch';
+import { toUrl, type Anime } from './anime';
+import { cleanText, createDatasetLoader, getAnimeByTitle, groupByAnime, toNumberOrNull } from './datasets';
+
+// Characters, voice actors and staff from the character/staff exports, linked to anime by title
+
+export interface VoiceActor {
+  name: string;
+  language: string; // e.g. Japanese, English
+}
+
+export interface AnimeCharacter {
+  malId: number | null;
+  animeTitle: string;
+  name: string;
+  nameKanji: string;
+  role: string; // 'Main' or 'Supporting'
+  about: string;
+  favorites: number | null;
+  voiceActors: VoiceActor[];
+  imageUrl: string | null;
+}
+
+export interface StaffCredit {
+  malId: number | null;
+  animeTitle: string;
+  name: string;
+  roles: string[]; // e.g. ['Director', 'Storyboard']
+  alternateNames: string[];
+  about: string;
+  favorites: number | null;
+  imageUrl: string | null;
+}
+
+export interface CharacterMatch {
+  character: AnimeCharacter;
+  score: number;
+}
+
+// An anime together with the credits that matched a person
+export interface PersonCredits {
+  anime: Anime;
+  credits: string[]; // e.g. 'Emilia (Main)' or 'Director, Storyboard'
+}
+
+export const loadCharacters = createDatasetLoader('anime-characters.json', (row): AnimeCharacter => ({
+  malId: toNumberOrNull(row.Character_MAL_ID),
+  animeTitle: cleanText(row.Anime_Title),
+  name: cleanText(row.Character_Name),
+  nameKanji: cleanText(row.Character_Name_Kanji),
+  role: cleanText(row.Character_Role),
+  about: cleanText(row.Character_About),
+  favorites: toNumberOrNull(row.Character_Favorites) ?? toNumberOrNull(row.Member_Favorites),
+  voiceActors: Array.isArray(row.Voice_Actors)
+    ? (row.Voice_Actors as VoiceActor[]).map(actor => ({ name: cleanText(actor.name), language: cleanText(actor.language) }))
+    : [],
+  imageUrl: toUrl(row.Character_Image_URL),
+}));
+
+export const loadStaff = createDatasetLoader('anime-staff.json', (row): StaffCredit => ({
+  malId: toNumberOrNull(row.Staff_MAL_ID),
+  animeTitle: cleanText(row.Anime_Title),
+  name: cleanText(row.Staff_Name),
+  roles: cleanText(row.Staff_Role).split(',').map(role => role.trim()).filter(Boolean),
+  alternateNames: cleanText(row.Alternate_Names).split(',').map(name => name.trim()).filter(Boolean),
+  about: cleanText(row.About),
+  favorites: toNumberOrNull(row.Favorites),
+  imageUrl: toUrl(row.Staff_Image_URL),
+}));
+
+// Lowercase name tokens without accents or punctuation, so 'Hanazawa, Kana' matches 'Kana Hanazawa'
+function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[\s,.'"()\-·・]+/)
+    .filter(Boolean);
+}
+
+// Whether every token of the query appears in the name or one of its alternates
+export function matchesPersonName(query: string, name: string, alternateNames: string[] = []): boolean {
+  const queryTokens = nameTokens(query);
+  if (queryTokens.length === 0) return false;
+
+  return [name, ...alternateNames].some(candidate => {
+    const tokens = nameTokens(candidate);
+    return queryTokens.every(token => tokens.includes(token));
+  });
+}
+
+// Main characters first, then by favorites
+function compareCharacters(a: AnimeCharacter, b: AnimeCharacter): number {
+  const roleComparison = Number(b.role === 'Main') - Number(a.role === 'Main');
+  return roleComparison || (b.favorites ?? 0) - (a.favorites ?? 0);
+}
+
+// Higher score first, unscored anime last
+function compareAnimeScore(a: PersonCredits, b: PersonCredits): number {
+  return (b.anime.Score ?? -1) - (a.anime.Score ?? -1);
+}
+
+// Character search indexes, per loaded dataset
+const characterIndexes = new WeakMap<AnimeCharacter[], MiniSearch>();
+
+function getCharacterIndex(characters: AnimeCharacter[]): MiniSearch {
+  let index = characterIndexes.get(characters);
+  if (!index) {
+    index = new MiniSearch({
+      fields: ['name', 'nameKanji', 'animeTitle', 'about'],
+      searchOptions: {
+        boost: { name: 3, nameKanji: 3, animeTitle: 1.5 },
+        fuzzy: 0.2,
+        prefix: true
+      }
+    });
+    index.addAll(characters.map((character, id) => ({ ...character, id })));
+    characterIndexes.set(characters, index);
+  }
+  return index;
+}
+
+// Fuzzy search characters by name, kanji name, anime title or biography
+export function searchCharacters(
+  characters: AnimeCharacter[],
+  query: string,
+  options: { animeTitle?: string; role?: string; limit?: number } = {}
+): CharacterMatch[] {
+  const { animeTitle, role, limit = 10 } = options;
+
+  return getCharacterIndex(characters)
+    .search(query)
+    .map(result => ({ character: characters[result.id], score: Math.round(result.score * 100) / 100 }))
+    .filter(({ character }) =>
+      (!animeTitle || character.animeTitle.toLowerCase().includes(animeTitle.toLowerCase())) &&
+      (!role || character.role.toLowerCase() === role.toLowerCase())
+    )
+    .slice(0, limit);
+}
+
+// Characters (main cast first) and staff of one anime
+export function getAnimeCast(
+  anime: Anime,
+  characters: AnimeCharacter[],
+  staff: StaffCredit[]
+): { characters: AnimeCharacter[]; staff: StaffCredit[] } {
+  const key = anime.Title.toLowerCase();
+  return {
+    characters: [...(groupByAnime(characters).get(key) ?? [])].sort(compareCharacters),
+    staff: groupByAnime(staff).get(key) ?? [],
+  };
+}
+
+// Anime in which a voice actor plays a character, optionally only main roles or one dub language
+export function findAnimeByVoiceActor(
+  data: Anime[],
+  characters: AnimeCharacter[],
+  name: string,
+  options: { role?: string; language?: string } = {}
+): PersonCredits[] {
+  const { role, language } = options;
+  const titles = getAnimeByTitle(data);
+  const results = new Map<Anime, PersonCredits>();
+
+  for (const character of characters) {
+    if (role && character.role.toLowerCase() !== role.toLowerCase()) continue;
+
+    const voiced = character.voiceActors.some(actor =>
+      matchesPersonName(name, actor.name) &&
+      (!language || actor.language.toLowerCase() === language.toLowerCase())
+    );
+    const anime = voiced ? titles.get(character.animeTitle.toLowerCase()) : undefined;
+    if (!anime) continue;
+
+    const entry = results.get(anime) ?? { anime, credits: [] };
+    entry.credits.push(`${character.name} (${character.role || 'Unknown role'})`);
+    results.set(anime, entry);
+  }
+
+  return Array.from(results.values()).sort(compareAnimeScore);
+}
+
+// Anime a person worked on, optionally only in roles containing `role` (e.g. 'Director')
+export function findAnimeByStaff(
+  data: Anime[],
+  staff: StaffCredit[],
+  name: string,
+  options: { role?: string } = {}
+): PersonCredits[] {
+  const role = options.role?.toLowerCase();
+  const titles = getAnimeByTitle(data);
+  const results = new Map<Anime, PersonCredits>();
+
+  for (const credit of staff) {
+    if (!matchesPersonName(name, credit.name, credit.alternateNames)) continue;
+    if (role && !credit.roles.some(creditRole => creditRole.toLowerCase().includes(role))) continue;
+
+    const anime = titles.get(credit.animeTitle.toLowerCase());
+    if (!anime) continue;
+
+    const entry = results.get(anime) ?? { anime, credits: [] };
+    entry.credits.push(credit.roles.join(', ') || 'Staff');
+    results.set(anime, entry);
+  }
+
+  return Array.from(results.values()).sort(compareAnimeScore);
+}
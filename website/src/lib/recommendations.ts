@@ -0,0 +1,144 @@
+import type { Anime } from './anime';
+import { cleanText, createDatasetLoader, toNumberOrNull } from './datasets';
+
+// "Fans also liked" suggestions from the MAL user recommendation graph
+
+export interface RecommendationEdge {
+  sourceId: number;
+  targetId: number;
+  count: number; // how many users recommended this pair
+  rationale: string; // the recommender's description
+}
+
+// An edge from a seed to a suggestion, as used in a walk
+export interface RecommendationLink {
+  seed: string; // seed title
+  via: string | null; // intermediate title on a two-hop walk
+  count: number;
+  rationale: string;
+}
+
+export interface CommunityRecommendation {
+  anime: Anime;
+  score: number; // summed edge weight over all seeds
+  seedCount: number; // how many seeds lead to this title
+  links: RecommendationLink[];
+}
+
+interface Neighbor {
+  id: number;
+  count: number;
+  rationale: string;
+}
+
+export interface RecommendationOptions {
+  limit?: number;
+  depth?: 1 | 2; // 2 also follows the suggestions' own recommendations, at half weight
+  within?: Anime[];
+}
+
+// Weight of a second-hop edge relative to a direct one
+const SECOND_HOP_DECAY = 0.5;
+
+export const loadRecommendations = createDatasetLoader('anime-recommendations.json', (row): RecommendationEdge => ({
+  sourceId: toNumberOrNull(row.Anime_MAL_ID) ?? 0,
+  targetId: toNumberOrNull(row.Recommended_Anime_ID) ?? 0,
+  count: toNumberOrNull(row.Recommendation_Count) ?? 1,
+  rationale: cleanText(row.Description),
+}));
+
+// MAL recommendations pair two titles, so edges are followed in both directions.
+// When both directions were scraped, the larger count and the first rationale win
+const graphCache = new WeakMap<RecommendationEdge[], Map<number, Map<number, Neighbor>>>();
+
+function getRecommendationGraph(edges: RecommendationEdge[]): Map<number, Map<number, Neighbor>> {
+  let graph = graphCache.get(edges);
+  if (!graph) {
+    graph = new Map();
+    const addEdge = (from: number, to: number, edge: RecommendationEdge) => {
+      const neighbors = graph!.get(from) ?? new Map<number, Neighbor>();
+      const existing = neighbors.get(to);
+      neighbors.set(to, {
+        id: to,
+        count: Math.max(existing?.count ?? 0, edge.count),
+        rationale: existing?.rationale || edge.rationale,
+      });
+      graph!.set(from, neighbors);
+    };
+
+    for (const edge of edges) {
+      if (edge.sourceId === edge.targetId) continue;
+      addEdge(edge.sourceId, edge.targetId, edge);
+      addEdge(edge.targetId, edge.sourceId, edge);
+    }
+    graphCache.set(edges, graph);
+  }
+  return graph;
+}
+
+// Edge weights relative to the seed's strongest edge (log-scaled), so a very popular seed
+// with thousands of recommendations does not drown out the others
+function getWeightedNeighbors(graph: Map<number, Map<number, Neighbor>>, id: number): Array<Neighbor & { weight: number }> {
+  const neighbors = Array.from(graph.get(id)?.values() ?? []);
+  const maxCount = Math.max(1, ...neighbors.map(neighbor => neighbor.count));
+  return neighbors.map(neighbor => ({ ...neighbor, weight: Math.log1p(neighbor.count) / Math.log1p(maxCount) }));
+}
+
+// Walk the recommendation graph from the seeds and rank what fans of them recommend.
+// Titles reached from several seeds rank first, then by summed edge weight
+export function getCommunityRecommendations(
+  data: Anime[],
+  edges: RecommendationEdge[],
+  seeds: Anime[],
+  options: RecommendationOptions = {}
+): CommunityRecommendation[] {
+  const { limit = 10, depth = 1, within } = options;
+  const graph = getRecommendationGraph(edges);
+  const byId = new Map(data.filter(anime => anime.MAL_ID !== null).map(anime => [anime.MAL_ID!, anime]));
+  const seedIds = new Set(seeds.map(seed => seed.MAL_ID));
+  const allowed = within ? new Set(within) : null;
+
+  const candidates = new Map<number, { score: number; seeds: Set<string>; links: RecommendationLink[] }>();
+  const visit = (id: number, weight: number, link: RecommendationLink) => {
+    if (seedIds.has(id)) return;
+    const candidate = candidates.get(id) ?? { score: 0, seeds: new Set<string>(), links: [] };
+    candidate.score += weight;
+    candidate.seeds.add(link.seed);
+    candidate.links.push(link);
+    candidates.set(id, candidate);
+  };
+
+  for (const seed of seeds) {
+    if (seed.MAL_ID === null) continue;
+
+    for (const neighbor of getWeightedNeighbors(graph, seed.MAL_ID)) {
+      visit(neighbor.id, neighbor.weight, { seed: seed.Title, via: null, count: neighbor.count, rationale: neighbor.rationale });
+
+      if (depth === 2) {
+        const via = byId.get(neighbor.id)?.Title ?? null;
+        for (const next of getWeightedNeighbors(graph, neighbor.id)) {
+          visit(next.id, neighbor.weight * next.weight * SECOND_HOP_DECAY, {
+            seed: seed.Title,
+            via,
+            count: next.count,
+            rationale: next.rationale,
+          });
+        }
+      }
+    }
+  }
+
+  return Array.from(candidates.entries())
+    .map(([id, candidate]) => ({
+      anime: byId.get(id),
+      score: Math.round(candidate.score * 1000) / 1000,
+      seedCount: candidate.seeds.size,
+      // Strongest links first
+      links: candidate.links.sort((a, b) => Number(a.via !== null) - Number(b.via !== null) || b.count - a.count),
+    }))
+    .filter((result): result is CommunityRecommendation =>
+      result.anime !== undefined && (!allowed || allowed.has(result.anime))
+    )
+    .sort((a, b) => b.seedCount - a.seedCount || b.score - a.score)
+    .slice(0, limit);
+}
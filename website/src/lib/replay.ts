@@ -0,0 +1,182 @@
+import { readdir, readFile, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { simulateReadableStream, type LanguageModel, type LanguageModelMiddleware } from 'ai';
+import { estimateTokens } from './budget';
+
+// Scripted chat model that replays fixture files instead of calling a provider, so the
+// chat route, the tools and the UI stream can run offline. Fixtures can be recorded from a real model
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doStream']>[0];
+type StreamPart = Awaited<ReturnType<LanguageModelV2['doStream']>>['stream'] extends ReadableStream<infer T> ? T : never;
+
+// One model call: what the model "says" before the route runs its tool calls or finishes the turn
+export interface FixtureStep {
+  reasoning?: string;
+  text?: string;
+  toolCalls?: Array<{ toolName: string; input: Record<string, unknown> }>;
+}
+
+export interface ChatFixture {
+  match?: string; // replayed when the last user message contains this (case-insensitive); omitted = fallback
+  chunkDelayMs?: number; // pause between streamed chunks, to watch the UI render
+  steps: FixtureStep[];
+}
+
+type Prompt = CallOptions['prompt'];
+
+function getLastUserText(prompt: Prompt): string {
+  const message = [...prompt].reverse().find(message => message.role === 'user');
+  if (!message || message.role !== 'user') return '';
+  return message.content.map(part => (part.type === 'text' ? part.text : '')).join('').trim();
+}
+
+// Each tool round of a turn adds an assistant message after the user's
+function getStepIndex(prompt: Prompt): number {
+  const lastUser = prompt.map(message => message.role).lastIndexOf('user');
+  return prompt.slice(lastUser + 1).filter(message => message.role === 'assistant').length;
+}
+
+async function readFixtures(dir: string): Promise<ChatFixture[]> {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.json')).sort();
+  return Promise.all(files.map(async file => {
+    const filePath = path.join(dir, file);
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8')) as ChatFixture;
+    } catch (error) {
+      throw new Error(`Chat fixture ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }));
+}
+
+// The first fixture (by file name) whose `match` occurs in the message, else the first one without `match`
+async function findFixture(dir: string, userText: string): Promise<ChatFixture> {
+  const fixtures = await readFixtures(dir);
+  const text = userText.toLowerCase();
+  const fixture = fixtures.find(fixture => fixture.match && text.includes(fixture.match.toLowerCase()))
+    ?? fixtures.find(fixture => !fixture.match);
+  if (!fixture) {
+    throw new Error(`No chat fixture in ${dir} matches "${userText}" and there is no fallback fixture`);
+  }
+  return fixture;
+}
+
+function toStreamParts(step: FixtureStep, stepIndex: number, prompt: Prompt): StreamPart[] {
+  const parts: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+  // Stream text word by word, the way providers deliver it
+  const pushText = (type: 'text' | 'reasoning', id: string, text: string) => {
+    parts.push({ type: `${type}-start`, id });
+    for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+      parts.push({ type: `${type}-delta`, id, delta });
+    }
+    parts.push({ type: `${type}-end`, id });
+  };
+  if (step.reasoning) pushText('reasoning', `reasoning-${stepIndex}`, step.reasoning);
+  if (step.text) pushText('text', `text-${stepIndex}`, step.text);
+
+  const toolCalls = step.toolCalls ?? [];
+  toolCalls.forEach((call, i) => {
+    parts.push({
+      type: 'tool-call',
+      toolCallId: `call-${stepIndex}-${i}`,
+      toolName: call.toolName,
+      input: JSON.stringify(call.input),
+    });
+  });
+
+  // Estimated, so replays report the same usage every time
+  const inputTokens = estimateTokens(prompt);
+  const outputTokens = estimateTokens((step.reasoning ?? '') + (step.text ?? '') + JSON.stringify(toolCalls));
+  parts.push({
+    type: 'finish',
+    finishReason: toolCalls.length > 0 ? 'tool-calls' : 'stop',
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+  });
+  return parts;
+}
+
+async function getStep(dir: string, prompt: Prompt): Promise<{ step: FixtureStep; stepIndex: number; fixture: ChatFixture }> {
+  const userText = getLastUserText(prompt);
+  const fixture = await findFixture(dir, userText);
+  const stepIndex = getStepIndex(prompt);
+  const step = fixture.steps[stepIndex];
+  if (!step) {
+    throw new Error(`Chat fixture for "${userText}" has ${fixture.steps.length} steps, but step ${stepIndex + 1} was requested`);
+  }
+  return { step, stepIndex, fixture };
+}
+
+export function createReplayModel(dir: string): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'replay',
+    modelId: path.basename(dir),
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const { step, stepIndex } = await getStep(dir, options.prompt);
+      const parts = toStreamParts(step, stepIndex, options.prompt);
+      const finish = parts[parts.length - 1] as Extract<StreamPart, { type: 'finish' }>;
+      return {
+        content: [
+          ...(step.reasoning ? [{ type: 'reasoning' as const, text: step.reasoning }] : []),
+          ...(step.text ? [{ type: 'text' as const, text: step.text }] : []),
+          ...parts.filter((part): part is Extract<StreamPart, { type: 'tool-call' }> => part.type === 'tool-call'),
+        ],
+        finishReason: finish.finishReason,
+        usage: finish.usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const { step, stepIndex, fixture } = await getStep(dir, options.prompt);
+      return {
+        stream: simulateReadableStream({
+          chunks: toStreamParts(step, stepIndex, options.prompt),
+          chunkDelayInMs: fixture.chunkDelayMs ?? null,
+        }),
+      };
+    },
+  };
+}
+
+// Fixture file for a user message, e.g. 'Shows like Attack on Titan?' -> shows-like-attack-on-titan.json
+const toFixtureFile = (userText: string): string =>
+  `${userText.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'fallback'}.json`;
+
+// Write each step a real model streams into the fixture for the turn's user message, ready for replay
+export function createRecordingMiddleware(dir: string): LanguageModelMiddleware {
+  return {
+    wrapStream: async ({ doStream, params }) => {
+      const { stream, ...rest } = await doStream();
+      const userText = getLastUserText(params.prompt);
+      const stepIndex = getStepIndex(params.prompt);
+      const step: FixtureStep = {};
+
+      const recorder = new TransformStream<StreamPart, StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'reasoning-delta') step.reasoning = (step.reasoning ?? '') + part.delta;
+          if (part.type === 'text-delta') step.text = (step.text ?? '') + part.delta;
+          if (part.type === 'tool-call') {
+            step.toolCalls = [...(step.toolCalls ?? []), { toolName: part.toolName, input: JSON.parse(part.input || '{}') }];
+          }
+          controller.enqueue(part);
+        },
+        async flush() {
+          const filePath = path.join(dir, toFixtureFile(userText));
+          const fixture: ChatFixture = await readFile(filePath, 'utf-8')
+            .then(content => JSON.parse(content) as ChatFixture)
+            .catch(() => ({ match: userText, steps: [] }));
+          // A new turn with the same message starts the fixture over
+          fixture.steps = [...fixture.steps.slice(0, stepIndex), step];
+          await mkdir(dir, { recursive: true });
+          await writeFile(filePath, JSON.stringify(fixture, null, 2) + '\n');
+        },
+      });
+
+      return { stream: stream.pipeThrough(recorder), ...rest };
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import { clampTokenBudget, countRowsWithinBudget, type OutputBudget, type PageBudget } from './budget';
+
+// Server-side cache of tool results, so later pages can be fetched without re-running the query
+
+export interface ResultPage<T = unknown> {
+  results: T[];
+  totalCount: number;
+  offset: number;
+  nextCursor: string | null; // null on the last page
+  budget?: PageBudget; // when the page was fitted to a token budget
+}
+
+interface ResultSession {
+  items: unknown[];
+  expiresAt: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Sessions expire after 30 minutes; the oldest are evicted beyond MAX_SESSIONS
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const MAX_SESSIONS = 200;
+
+// Kept on globalThis so the chat route and the results route share one cache
+const globalForResults = globalThis as typeof globalThis & {
+  animeResultSessions?: Map<string, ResultSession>;
+};
+const sessions = (globalForResults.animeResultSessions ??= new Map());
+
+function encodeCursor(sessionId: string, offset: number): string {
+  return Buffer.from(`${sessionId}:${offset}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { sessionId: string; offset: number } | null {
+  const [sessionId, offset] = Buffer.from(cursor, 'base64url').toString('utf-8').split(':');
+  const parsedOffset = Number(offset);
+  if (!sessionId || !Number.isInteger(parsedOffset) || parsedOffset < 0) return null;
+  return { sessionId, offset: parsedOffset };
+}
+
+function pruneSessions(now: number): void {
+  for (const [id, session] of sessions) {
+    if (session.expiresAt <= now) sessions.delete(id);
+  }
+  // Maps iterate in insertion order, so the first keys are the oldest sessions
+  for (const id of sessions.keys()) {
+    if (sessions.size < MAX_SESSIONS) break;
+    sessions.delete(id);
+  }
+}
+
+function clampPageSize(pageSize: number): number {
+  return Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pageSize) || DEFAULT_PAGE_SIZE));
+}
+
+function toPage<T>(sessionId: string, items: T[], offset: number, pageSize: number, budget?: OutputBudget): ResultPage<T> {
+  const size = clampPageSize(pageSize);
+  // Results beyond the budget are left for the next page, so the cursor still reaches them
+  const fitted = budget ? countRowsWithinBudget(items.slice(offset, offset + size), budget) : size;
+  const end = offset + fitted;
+  return {
+    results: items.slice(offset, end),
+    totalCount: items.length,
+    offset,
+    nextCursor: end < items.length ? encodeCursor(sessionId, end) : null,
+    ...(budget ? {
+      budget: {
+        maxTokens: clampTokenBudget(budget.maxTokens),
+        fields: budget.fields,
+        deferredCount: Math.min(size, items.length - offset) - fitted,
+      },
+    } : {}),
+  };
+}
+
+// Return the first page of results, caching the rest behind an opaque cursor.
+// With a budget, the page holds only the results that fit it
+export function createResultPage<T>(items: T[], pageSize: number = DEFAULT_PAGE_SIZE, budget?: OutputBudget): ResultPage<T> {
+  const now = Date.now();
+  pruneSessions(now);
+
+  const sessionId = randomUUID();
+  const page = toPage(sessionId, items, 0, pageSize, budget);
+  if (page.nextCursor) {
+    sessions.set(sessionId, { items, expiresAt: now + SESSION_TTL_MS });
+  }
+  return page;
+}
+
+// Fetch the page a cursor points at, or null when the cursor is invalid or its session expired
+export function getResultPage(cursor: string, pageSize: number = DEFAULT_PAGE_SIZE, budget?: OutputBudget): ResultPage | null {
+  const decoded = decodeCursor(cursor);
+  if (!decoded) return null;
+
+  const session = sessions.get(decoded.sessionId);
+  if (!session || session.expiresAt <= Date.now()) {
+    sessions.delete(decoded.sessionId);
+    return null;
+  }
+
+  // Reading a page keeps the session alive
+  session.expiresAt = Date.now() + SESSION_TTL_MS;
+  return toPage(decoded.sessionId, session.items, Math.min(decoded.offset, session.items.length), pageSize, budget);
+}
@@ -0,0 +1,197 @@
+import type { Anime, RangeFilter } from './anime';
+import { cleanText, createDatasetLoader, getAnimeByTitle, groupByAnime, toNumberOrNull } from './datasets';
+
+// User reviews from the review export: aggregated aspect scores and quotable excerpts per anime
+
+export const REVIEW_ASPECTS = ['story', 'animation', 'sound', 'character', 'enjoyment'] as const;
+
+export type ReviewAspect = typeof REVIEW_ASPECTS[number];
+
+// The aspects plus the reviewer's overall score
+export type ReviewScoreField = ReviewAspect | 'overall';
+
+export interface AnimeReview {
+  id: number | null;
+  animeTitle: string;
+  username: string;
+  date: string;
+  recommendation: string; // Recommended, Mixed Feelings or Not Recommended
+  scores: Record<ReviewScoreField, number | null>;
+  helpfulCount: number;
+  text: string;
+}
+
+export interface AspectSummary {
+  average: number | null; // null when no review scored this aspect
+  count: number;
+}
+
+export interface ReviewSummary {
+  reviewCount: number;
+  scores: Record<ReviewScoreField, AspectSummary>;
+  recommendations: Record<string, number>; // e.g. { Recommended: 12, 'Not Recommended': 3 }
+}
+
+export interface ReviewExcerpt {
+  reviewId: number | null;
+  username: string;
+  date: string;
+  recommendation: string;
+  scores: Record<ReviewScoreField, number | null>;
+  helpfulCount: number;
+  excerpt: string;
+}
+
+// Min/max bounds on the average of each aspect, e.g. { animation: { min: 9 }, story: { max: 6 } }
+export type AspectFilters = Partial<Record<ReviewScoreField, RangeFilter>>;
+
+export interface AspectMatch {
+  anime: Anime;
+  summary: ReviewSummary;
+}
+
+const SCORE_FIELDS: ReviewScoreField[] = ['overall', ...REVIEW_ASPECTS];
+
+// Words reviewers use when they discuss an aspect, used to pick the relevant part of a review
+const ASPECT_KEYWORDS: Record<ReviewScoreField, RegExp> = {
+  overall: /overall|verdict|recommend/i,
+  story: /story|plot|narrative|writing|pacing|ending/i,
+  animation: /animat|visual|art\b|artstyle|cinematograph|fight scenes|cgi/i,
+  sound: /sound|music|soundtrack|\bost\b|voice act|opening|insert song/i,
+  character: /character|protagonist|cast\b|villain|development/i,
+  enjoyment: /enjoy|fun\b|entertain|boring|rewatch/i,
+};
+
+export const loadReviews = createDatasetLoader('anime-reviews.json', (row): AnimeReview => ({
+  id: toNumberOrNull(row.Review_ID),
+  animeTitle: cleanText(row.Anime_Title),
+  username: cleanText(row.Username),
+  date: cleanText(row.Review_Date),
+  recommendation: cleanText(row.Recommendation),
+  scores: {
+    overall: toNumberOrNull(row.Overall_Score),
+    story: toNumberOrNull(row.Story_Score),
+    animation: toNumberOrNull(row.Animation_Score),
+    sound: toNumberOrNull(row.Sound_Score),
+    character: toNumberOrNull(row.Character_Score),
+    enjoyment: toNumberOrNull(row.Enjoyment_Score),
+  },
+  helpfulCount: toNumberOrNull(row.Helpful_Count) ?? 0,
+  text: cleanText(row.Review_Text).replace(/\s+/g, ' '),
+}));
+
+export function summarizeReviews(reviews: AnimeReview[]): ReviewSummary {
+  const scores = Object.fromEntries(SCORE_FIELDS.map(field => {
+    const values = reviews.map(review => review.scores[field]).filter((value): value is number => value !== null);
+    const average = values.length > 0
+      ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100
+      : null;
+    return [field, { average, count: values.length }];
+  })) as Record<ReviewScoreField, AspectSummary>;
+
+  const recommendations: Record<string, number> = {};
+  for (const { recommendation } of reviews) {
+    if (recommendation) recommendations[recommendation] = (recommendations[recommendation] ?? 0) + 1;
+  }
+
+  return { reviewCount: reviews.length, scores, recommendations };
+}
+
+// Review summaries keyed by lowercase anime title, per loaded dataset
+const summaryCache = new WeakMap<AnimeReview[], Map<string, ReviewSummary>>();
+
+function getReviewSummaries(reviews: AnimeReview[]): Map<string, ReviewSummary> {
+  let summaries = summaryCache.get(reviews);
+  if (!summaries) {
+    summaries = new Map();
+    for (const [title, animeReviews] of groupByAnime(reviews)) {
+      summaries.set(title, summarizeReviews(animeReviews));
+    }
+    summaryCache.set(reviews, summaries);
+  }
+  return summaries;
+}
+
+// Cut a review down to maxLength characters, starting at the first sentence that matches `focus`
+export function toExcerpt(text: string, focus?: RegExp, maxLength: number = 400): string {
+  const sentences = text.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [];
+  const start = Math.max(0, focus ? sentences.findIndex(sentence => focus.test(sentence)) : 0);
+
+  let excerpt = '';
+  for (const sentence of sentences.slice(start)) {
+    const next = excerpt ? `${excerpt} ${sentence}` : sentence;
+    if (next.length > maxLength) {
+      // Always return something, even when the first sentence alone is too long
+      if (!excerpt) excerpt = `${sentence.slice(0, maxLength).replace(/\s+\S*$/, '')}...`;
+      else excerpt += ' ...';
+      break;
+    }
+    excerpt = next;
+  }
+
+  return start > 0 ? `...${excerpt}` : excerpt;
+}
+
+// Aggregated scores of one anime and its most helpful reviews, optionally focused on one aspect
+export function getAnimeReviews(
+  anime: Anime,
+  reviews: AnimeReview[],
+  options: { aspect?: ReviewScoreField; limit?: number; maxLength?: number } = {}
+): { summary: ReviewSummary; excerpts: ReviewExcerpt[] } {
+  const { aspect, limit = 3, maxLength = 400 } = options;
+  const animeReviews = groupByAnime(reviews).get(anime.Title.toLowerCase()) ?? [];
+  const focus = aspect ? ASPECT_KEYWORDS[aspect] : undefined;
+
+  // Reviews that discuss the requested aspect come first, then the most helpful
+  const ranked = [...animeReviews].sort((a, b) =>
+    (focus ? Number(focus.test(b.text)) - Number(focus.test(a.text)) : 0) ||
+    b.helpfulCount - a.helpfulCount
+  );
+
+  return {
+    summary: summarizeReviews(animeReviews),
+    excerpts: ranked.slice(0, limit).map(review => ({
+      reviewId: review.id,
+      username: review.username,
+      date: review.date,
+      recommendation: review.recommendation,
+      scores: review.scores,
+      helpfulCount: review.helpfulCount,
+      excerpt: toExcerpt(review.text, focus, maxLength),
+    })),
+  };
+}
+
+function inRange(value: number | null, filter: RangeFilter): boolean {
+  if (value === null) return false;
+  if (filter.min !== undefined && value < filter.min) return false;
+  if (filter.max !== undefined && value > filter.max) return false;
+  return true;
+}
+
+// Anime whose average aspect scores fall within the given bounds, e.g. animation >= 9 but story <= 6.
+// Anime with fewer than minReviews reviews are skipped, since a single review says little
+export function filterAnimeByAspectScores(
+  data: Anime[],
+  reviews: AnimeReview[],
+  filters: AspectFilters,
+  options: { minReviews?: number; within?: Anime[] } = {}
+): AspectMatch[] {
+  const { minReviews = 3, within } = options;
+  const titles = getAnimeByTitle(data);
+  const allowed = within ? new Set(within) : null;
+  const matches: AspectMatch[] = [];
+
+  for (const [title, summary] of getReviewSummaries(reviews)) {
+    const anime = titles.get(title);
+    if (!anime || (allowed && !allowed.has(anime)) || summary.reviewCount < minReviews) continue;
+
+    const matchesAll = Object.entries(filters).every(([field, filter]) =>
+      inRange(summary.scores[field as ReviewScoreField].average, filter)
+    );
+    if (matchesAll) matches.push({ anime, summary });
+  }
+
+  // Most-reviewed first, since their averages are the most reliable
+  return matches.sort((a, b) => b.summary.reviewCount - a.summary.reviewCount);
+}
@@ -0,0 +1,224 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { createFilterChain, type Anime } from './anime';
+import { getEmbedder, type Embedder } from './embeddings';
+
+// Vector index over descriptions, synonyms, genres and themes, one row per anime in dataset order
+interface EmbeddingIndex {
+  embedderId: string;
+  sourceHash: string;
+  dimensions: number;
+  vectors: Float32Array;
+}
+
+// Metadata stored next to the binary vectors
+interface EmbeddingIndexManifest {
+  embedderId: string;
+  sourceHash: string;
+  dimensions: number;
+  count: number;
+  builtAt: string;
+}
+
+export interface SemanticMatch {
+  anime: Anime;
+  score: number; // reciprocal rank fusion score
+  similarity: number | null; // cosine similarity to the query
+  vectorRank: number | null;
+  lexicalRank: number | null;
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  // Restrict results to these anime (e.g. the output of filterAnime)
+  within?: Anime[];
+}
+
+// Standard RRF constant; larger values flatten the contribution of top ranks
+const RRF_K = 60;
+// How many hits from each ranking take part in the fusion
+const CANDIDATE_COUNT = 200;
+
+// Indexes per dataset and embedder id
+const indexes = new WeakMap<Anime[], Map<string, Promise<EmbeddingIndex>>>();
+
+function getIndexPaths(): { manifest: string; vectors: string } {
+  const dir = path.join(process.cwd(), 'src', 'lib');
+  return {
+    manifest: path.join(dir, 'anime-embeddings.json'),
+    vectors: path.join(dir, 'anime-embeddings.bin'),
+  };
+}
+
+// Text embedded for each anime
+function toEmbeddingText(anime: Anime): string {
+  return [[...anime.genres, ...anime.themes].join(', '), anime.Synonyms, anime.Description]
+    .filter(part => part && part !== 'N/A')
+    .join('. ');
+}
+
+async function readPersistedIndex(embedderId: string, sourceHash: string, count: number): Promise<EmbeddingIndex | null> {
+  const paths = getIndexPaths();
+  try {
+    const manifest = JSON.parse(await readFile(paths.manifest, 'utf-8')) as EmbeddingIndexManifest;
+    if (manifest.embedderId !== embedderId || manifest.sourceHash !== sourceHash || manifest.count !== count) {
+      return null;
+    }
+
+    const buffer = await readFile(paths.vectors);
+    const vectors = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    if (vectors.length !== manifest.dimensions * count) return null;
+
+    return { embedderId, sourceHash, dimensions: manifest.dimensions, vectors };
+  } catch {
+    return null;
+  }
+}
+
+async function writePersistedIndex(index: EmbeddingIndex, count: number): Promise<void> {
+  const paths = getIndexPaths();
+  const manifest: EmbeddingIndexManifest = {
+    embedderId: index.embedderId,
+    sourceHash: index.sourceHash,
+    dimensions: index.dimensions,
+    count,
+    builtAt: new Date().toISOString(),
+  };
+
+  try {
+    await writeFile(paths.vectors, Buffer.from(index.vectors.buffer, index.vectors.byteOffset, index.vectors.byteLength));
+    await writeFile(paths.manifest, JSON.stringify(manifest, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('[semantic] Failed to persist embedding index:', error);
+  }
+}
+
+// Load the persisted index for this dataset and embedder, or embed the dataset locally and persist it
+async function buildEmbeddingIndex(data: Anime[], embedder: Embedder): Promise<EmbeddingIndex> {
+  const texts = data.map(toEmbeddingText);
+  const sourceHash = createHash('sha1').update(embedder.id).update(texts.join('\n')).digest('hex');
+
+  const persisted = await readPersistedIndex(embedder.id, sourceHash, data.length);
+  if (persisted) return persisted;
+
+  const embedded = await embedder.embed(texts);
+  const dimensions = embedded[0]?.length ?? embedder.dimensions;
+  const vectors = new Float32Array(dimensions * data.length);
+  embedded.forEach((vector, row) => vectors.set(vector, row * dimensions));
+
+  const index = { embedderId: embedder.id, sourceHash, dimensions, vectors };
+  await writePersistedIndex(index, data.length);
+  return index;
+}
+
+// More popular (lower Popularity rank) first, unknown popularity last
+function comparePopularity(a: Anime, b: Anime): number {
+  if (a.Popularity === b.Popularity) return 0;
+  if (a.Popularity === null) return 1;
+  if (b.Popularity === null) return -1;
+  return a.Popularity - b.Popularity;
+}
+
+// Get (building once per dataset and embedder) the embedding index
+export function getEmbeddingIndex(data: Anime[], embedder: Embedder = getEmbedder()): Promise<EmbeddingIndex> {
+  let byEmbedder = indexes.get(data);
+  if (!byEmbedder) {
+    byEmbedder = new Map();
+    indexes.set(data, byEmbedder);
+  }
+
+  let index = byEmbedder.get(embedder.id);
+  if (!index) {
+    index = buildEmbeddingIndex(data, embedder);
+    // Allow a retry after a failed build
+    index.catch(() => byEmbedder!.delete(embedder.id));
+    byEmbedder.set(embedder.id, index);
+  }
+  return index;
+}
+
+// Cosine similarity of every anime's description embedding to one anime's, in dataset order
+export async function getDescriptionSimilarities(
+  data: Anime[],
+  anime: Anime,
+  embedder: Embedder = getEmbedder()
+): Promise<Float32Array> {
+  const index = await getEmbeddingIndex(data, embedder);
+  const similarities = new Float32Array(data.length);
+  const seedRow = data.indexOf(anime);
+  if (seedRow === -1) return similarities;
+
+  const seedOffset = seedRow * index.dimensions;
+  for (let row = 0; row < data.length; row++) {
+    let similarity = 0;
+    const offset = row * index.dimensions;
+    for (let i = 0; i < index.dimensions; i++) {
+      similarity += index.vectors[offset + i] * index.vectors[seedOffset + i];
+    }
+    similarities[row] = similarity;
+  }
+  return similarities;
+}
+
+// Hybrid search fusing vector similarity with the MiniSearch BM25 ranking using reciprocal rank fusion
+export async function semanticSearch(
+  data: Anime[],
+  query: string,
+  options: SemanticSearchOptions = {},
+  embedder: Embedder = getEmbedder()
+): Promise<SemanticMatch[]> {
+  const { limit = 10, within } = options;
+  const allowed = within ? new Set(within) : null;
+
+  const index = await getEmbeddingIndex(data, embedder);
+  const [queryVector] = await embedder.embed([query]);
+
+  // Vector ranking: vectors are normalized, so the dot product is the cosine similarity
+  const similarities: Array<{ anime: Anime; similarity: number }> = [];
+  data.forEach((anime, row) => {
+    if (allowed && !allowed.has(anime)) return;
+    let similarity = 0;
+    const offset = row * index.dimensions;
+    for (let i = 0; i < index.dimensions; i++) {
+      similarity += index.vectors[offset + i] * queryVector[i];
+    }
+    if (similarity > 0) similarities.push({ anime, similarity });
+  });
+  const vectorHits = similarities
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, CANDIDATE_COUNT);
+
+  // Lexical ranking from the MiniSearch relevance order
+  const lexicalHits = createFilterChain(data)
+    .filter({ search: { query } })
+    .getData()
+    .filter(anime => !allowed || allowed.has(anime))
+    .slice(0, CANDIDATE_COUNT);
+
+  const matches = new Map<Anime, SemanticMatch>();
+  const getMatch = (anime: Anime): SemanticMatch => {
+    let match = matches.get(anime);
+    if (!match) {
+      match = { anime, score: 0, similarity: null, vectorRank: null, lexicalRank: null };
+      matches.set(anime, match);
+    }
+    return match;
+  };
+
+  vectorHits.forEach(({ anime, similarity }, i) => {
+    const match = getMatch(anime);
+    match.similarity = Math.round(similarity * 1000) / 1000;
+    match.vectorRank = i + 1;
+    match.score += 1 / (RRF_K + i + 1);
+  });
+  lexicalHits.forEach((anime, i) => {
+    const match = getMatch(anime);
+    match.lexicalRank = i + 1;
+    match.score += 1 / (RRF_K + i + 1);
+  });
+
+  return Array.from(matches.values())
+    .sort((a, b) => b.score - a.score || comparePopularity(a.anime, b.anime))
+    .slice(0, limit);
+}
@@ -0,0 +1,123 @@
+import type { Anime } from './anime';
+import { getDescriptionSimilarities } from './semantic';
+
+// Per-signal similarity to the seed, each between 0 and 1
+export interface SimilarityBreakdown {
+  genres: number;
+  themes: number;
+  studios: number;
+  source: number;
+  era: number;
+  description: number;
+}
+
+export interface SimilarAnime {
+  anime: Anime;
+  similarity: number; // weighted sum of the breakdown
+  breakdown: SimilarityBreakdown;
+  reasons: string[];
+}
+
+export interface SimilarAnimeOptions {
+  limit?: number;
+  // Restrict candidates to these anime (e.g. the output of filterAnime)
+  within?: Anime[];
+}
+
+// How much each signal contributes to the overall similarity
+const SIMILARITY_WEIGHTS: SimilarityBreakdown = {
+  genres: 0.3,
+  themes: 0.1,
+  studios: 0.1,
+  source: 0.1,
+  era: 0.15,
+  description: 0.25,
+};
+
+// Years apart at which era proximity has decayed to about a third
+const ERA_DECAY_YEARS = 5;
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setA = new Set(a.map(item => item.toLowerCase()));
+  const shared = b.filter(item => setA.has(item.toLowerCase())).length;
+  return shared / (setA.size + b.length - shared);
+}
+
+function getYear(anime: Anime): number | null {
+  return anime.airedFrom ? parseInt(anime.airedFrom.slice(0, 4), 10) : null;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+// Human-readable reasons for the strongest signals
+function describeMatch(seed: Anime, candidate: Anime, breakdown: SimilarityBreakdown): string[] {
+  const reasons: string[] = [];
+
+  const seedGenres = new Set(seed.genres.map(genre => genre.toLowerCase()));
+  const sharedGenres = candidate.genres.filter(genre => seedGenres.has(genre.toLowerCase()));
+  if (sharedGenres.length > 0) reasons.push(`Shares genres: ${sharedGenres.join(', ')}`);
+
+  const seedThemes = new Set(seed.themes.map(theme => theme.toLowerCase()));
+  const sharedThemes = candidate.themes.filter(theme => seedThemes.has(theme.toLowerCase()));
+  if (sharedThemes.length > 0) reasons.push(`Shares themes: ${sharedThemes.join(', ')}`);
+
+  const seedStudios = new Set(seed.studios.map(studio => studio.toLowerCase()));
+  const sharedStudios = candidate.studios.filter(studio => seedStudios.has(studio.toLowerCase()));
+  if (sharedStudios.length > 0) reasons.push(`Same studio: ${sharedStudios.join(', ')}`);
+
+  if (breakdown.source === 1) reasons.push(`Same source material: ${candidate.Source}`);
+
+  const seedYear = getYear(seed);
+  const candidateYear = getYear(candidate);
+  if (seedYear !== null && candidateYear !== null && Math.abs(seedYear - candidateYear) <= 3) {
+    reasons.push(seedYear === candidateYear ? `Same year: ${candidateYear}` : `Similar era: ${candidateYear}`);
+  }
+
+  if (breakdown.description >= 0.3) reasons.push('Similar premise and themes in the synopsis');
+
+  return reasons;
+}
+
+// Rank anime by similarity to a seed title, combining genre and theme overlap, studio, source,
+// era proximity and description similarity
+export async function findSimilarAnime(
+  data: Anime[],
+  seed: Anime,
+  options: SimilarAnimeOptions = {}
+): Promise<SimilarAnime[]> {
+  const { limit = 10, within } = options;
+  const allowed = within ? new Set(within) : null;
+
+  const descriptionSimilarities = await getDescriptionSimilarities(data, seed);
+  const seedYear = getYear(seed);
+  const seedSource = seed.Source.toLowerCase();
+
+  const results: SimilarAnime[] = [];
+  data.forEach((candidate, row) => {
+    if (candidate === seed || (allowed && !allowed.has(candidate))) return;
+
+    const candidateYear = getYear(candidate);
+    const breakdown: SimilarityBreakdown = {
+      genres: round(jaccard(seed.genres, candidate.genres)),
+      themes: round(jaccard(seed.themes, candidate.themes)),
+      studios: round(jaccard(seed.studios, candidate.studios)),
+      source: seedSource && seedSource !== 'unknown' && candidate.Source.toLowerCase() === seedSource ? 1 : 0,
+      era: seedYear !== null && candidateYear !== null
+        ? round(Math.exp(-Math.abs(seedYear - candidateYear) / ERA_DECAY_YEARS))
+        : 0,
+      description: round(Math.max(0, descriptionSimilarities[row])),
+    };
+
+    const similarity = (Object.keys(SIMILARITY_WEIGHTS) as Array<keyof SimilarityBreakdown>)
+      .reduce((sum, signal) => sum + SIMILARITY_WEIGHTS[signal] * breakdown[signal], 0);
+
+    results.push({ anime: candidate, similarity: round(similarity), breakdown, reasons: [] });
+  });
+
+  // Reasons are only worth building for the results that are returned
+  return results
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(result => ({ ...result, reasons: describeMatch(seed, result.anime, result.breakdown) }));
+}
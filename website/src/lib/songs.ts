@@ -0,0 +1,131 @@
+import type { Anime } from './anime';
+import { matchesPersonName } from './people';
+
+// Opening and ending theme songs, parsed from the opening_themes and ending_themes columns of the anime export
+
+export type ThemeSongKind = 'opening' | 'ending';
+
+export interface ThemeSong {
+  kind: ThemeSongKind;
+  sequence: number | null; // 1 for the first opening or ending, when the export numbers them
+  title: string;
+  titleNative: string | null; // original title MAL gives in parentheses, e.g. '紅蓮華'
+  artist: string; // credit as written, e.g. 'Yui Horie (as Ami Kawashima)'
+  artists: string[]; // performers only, without character credits
+  episodes: string | null; // episode range as written, e.g. '1-12, 14'
+  firstEpisode: number | null;
+  lastEpisode: number | null;
+}
+
+export interface ThemeSongMatch {
+  anime: Anime;
+  songs: ThemeSong[];
+}
+
+export interface ThemeSongQuery {
+  artist?: string;
+  song?: string;
+  kind?: ThemeSongKind;
+  within?: Anime[];
+}
+
+// Split the list the scraper writes: JSON, a Python list repr, or entries joined by newlines or '|'
+function splitThemeList(value: string): string[] {
+  const text = value.trim();
+  if (text === '' || text === 'N/A' || text === '[]') return [];
+
+  if (text.startsWith('[')) {
+    try {
+      const list = JSON.parse(text);
+      if (Array.isArray(list)) return list.map(String);
+    } catch {
+      const items = text.match(/'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g);
+      if (items) return items.map(item => item.slice(1, -1).replace(/\\(.)/g, '$1'));
+    }
+  }
+
+  // A single line may still hold several numbered entries: '1: "A" by X 2: "B" by Y'
+  return text.split(/\r?\n|\s*\|\s*|(?=\s#?\d+:\s*")/).map(entry => entry.trim()).filter(Boolean);
+}
+
+// Performers in a credit, dropping character credits like '(as Ami Kawashima)' or '(CV: ...)'
+function splitArtists(credit: string): string[] {
+  return credit
+    .replace(/\s*\([^)]*\)/g, '')
+    .split(/\s*(?:,|&|\u3001|\s\u00d7\s|\sfeat(?:uring|\.)?\s|\sft\.\s|\swith\s)\s*/i)
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+// Parse one entry such as '1: "Gurenge (紅蓮華)" by LiSA (eps 1-19, 21-26)'
+export function parseThemeSong(entry: string, kind: ThemeSongKind): ThemeSong | null {
+  let rest = entry.trim();
+  if (rest === '' || /^no (opening|ending) themes/i.test(rest)) return null;
+
+  const sequence = rest.match(/^#?(\d+)\s*:\s*/);
+  if (sequence) rest = rest.slice(sequence[0].length);
+
+  let episodes: string | null = null;
+  const range = rest.match(/\s*\((?:eps?|episodes?)\.?\s*([^)]*)\)\s*$/i);
+  if (range) {
+    episodes = range[1].trim() || null;
+    rest = rest.slice(0, range.index);
+  }
+
+  // Titles are usually quoted; without quotes the last ' by ' separates title and artist
+  let title: string;
+  let artist: string;
+  const quoted = rest.match(/^"(.*)"\s*(?:by\s+)?(.*)$/i);
+  if (quoted) {
+    [, title, artist] = quoted;
+  } else {
+    const by = rest.toLowerCase().lastIndexOf(' by ');
+    title = by >= 0 ? rest.slice(0, by) : rest;
+    artist = by >= 0 ? rest.slice(by + 4) : '';
+  }
+
+  let titleNative: string | null = null;
+  const native = title.trim().match(/^(.*\S)\s*\(([^)]*[\u0080-\uffff][^)]*)\)$/);
+  if (native) [, title, titleNative] = native;
+
+  title = title.trim();
+  if (title === '') return null;
+
+  const episodeNumbers = (episodes?.match(/\d+/g) ?? []).map(Number);
+  return {
+    kind,
+    sequence: sequence ? parseInt(sequence[1], 10) : null,
+    title,
+    titleNative,
+    artist: artist.trim(),
+    artists: splitArtists(artist),
+    episodes,
+    firstEpisode: episodeNumbers.length > 0 ? Math.min(...episodeNumbers) : null,
+    lastEpisode: episodeNumbers.length > 0 ? Math.max(...episodeNumbers) : null,
+  };
+}
+
+export function parseThemeSongs(value: string, kind: ThemeSongKind): ThemeSong[] {
+  return splitThemeList(value)
+    .map(entry => parseThemeSong(entry, kind))
+    .filter((song): song is ThemeSong => song !== null);
+}
+
+// Lowercase without spaces and punctuation, so 'Unravel' matches 'unravel ' and "Don't say lazy" matches 'dont say lazy'
+const normalizeSongTitle = (title: string): string => title.toLowerCase().replace(/[\s"'!?.,:;~\-]+/g, '');
+
+// Anime with theme songs by the given artist and/or with a matching title, most popular first
+export function searchThemeSongs(data: Anime[], query: ThemeSongQuery): ThemeSongMatch[] {
+  const { artist, song, kind, within } = query;
+  const songTerm = song ? normalizeSongTitle(song) : null;
+
+  const matchesSong = (themeSong: ThemeSong): boolean =>
+    (!kind || themeSong.kind === kind) &&
+    (!artist || themeSong.artists.some(name => matchesPersonName(artist, name)) || matchesPersonName(artist, themeSong.artist)) &&
+    (!songTerm || [themeSong.title, themeSong.titleNative ?? ''].some(title => normalizeSongTitle(title).includes(songTerm)));
+
+  return (within ?? data)
+    .map(anime => ({ anime, songs: anime.themeSongs.filter(matchesSong) }))
+    .filter(match => match.songs.length > 0)
+    .sort((a, b) => (b.anime.Members ?? 0) - (a.anime.Members ?? 0));
+}
@@ -0,0 +1,241 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { stat } from 'fs/promises';
+import { toSelection, type AnimeFilters, type MultiSelectFilter, type NumericFilter, type RangeFilter, type TextFilter } from './anime';
+import { ingestAnimeRecords } from './ingest';
+import type { AnimeStore, SqlCondition, StoreMatches } from './storage';
+
+// Anime storage backed by the scraper's SQLite database (anime_data and its companion tables).
+// Filters are compiled into SQL, with text search running on an FTS5 index built when the database changes
+
+// anime_data columns under the names of the scraper's CSV export, so rows go through the same validation
+const ANIME_COLUMNS = `
+  a.mal_id AS MAL_ID, a.title AS Title, a.title_english AS English_Title, a.title_japanese AS Japanese_Title,
+  a.title_synonyms AS Synonyms, a.score AS Score, a.score_count AS Score_Count, a.popularity AS Popularity,
+  a.rank AS Rank, a.members AS Members, a.favorites AS Favorites, a.description AS Description,
+  a.background AS Background, a.type AS Type, a.episodes AS Episodes, a.status AS Status,
+  a.aired_from AS Aired_From, a.aired_to AS Aired_To, a.premiered AS Premiered, a.broadcast AS Broadcast,
+  a.producers AS Producers, a.licensors AS Licensors, a.studios AS Studios, a.source AS Source,
+  a.genres AS Genres, a.themes AS Themes, a.demographics AS Demographics, a.duration AS Duration,
+  a.rating AS Rating, a.trailer_url AS Trailer_URL, a.image_url AS Image_URL,
+  a.opening_themes AS Opening_Themes, a.ending_themes AS Ending_Themes, a.external_links AS External_Links`;
+
+// Numeric filters and the columns they compare
+const NUMERIC_COLUMNS = {
+  score: 'score',
+  popularity: 'popularity',
+  rank: 'rank',
+  members: 'members',
+  favorites: 'favorites',
+  scoreCount: 'score_count',
+  episodes: 'episodes',
+} satisfies Partial<Record<keyof AnimeFilters, string>>;
+
+// Categorical filters and the columns they match; list columns hold comma-separated values
+const CATEGORICAL_COLUMNS = {
+  type: 'type',
+  status: 'status',
+  source: 'source',
+  rating: 'rating',
+  demographic: 'demographics',
+  genres: 'genres',
+  themes: 'themes',
+  studios: 'studios',
+  producers: 'producers',
+} satisfies Partial<Record<keyof AnimeFilters, string>>;
+
+const TEXT_COLUMNS = {
+  title: 'title',
+  english: 'title_english',
+  japanese: 'title_japanese',
+  description: 'description',
+} satisfies Partial<Record<keyof AnimeFilters, string>>;
+
+// SQLite only folds ASCII case, so other values are left to the in-memory engine
+const isAscii = (value: string): boolean => /^[ -~]*$/.test(value);
+
+// Ranks are stored like '#56' and counts like '1,234'; 'N/A' casts to 0 and is filtered out again in memory
+const toNumberSql = (column: string): string => `CAST(REPLACE(REPLACE(a.${column}, '#', ''), ',', '') AS REAL)`;
+
+interface CompiledQuery {
+  where: string[];
+  params: Array<string | number>;
+}
+
+function compileNumeric(query: CompiledQuery, column: string, filter: NumericFilter | RangeFilter): void {
+  const value = toNumberSql(column);
+
+  if ('min' in filter || 'max' in filter) {
+    const range = filter as RangeFilter;
+    if (range.min !== undefined) {
+      query.where.push(`${value} >= ?`);
+      query.params.push(range.min);
+    }
+    if (range.max !== undefined) {
+      query.where.push(`${value} <= ?`);
+      query.params.push(range.max);
+    }
+    return;
+  }
+
+  const numeric = filter as NumericFilter;
+  switch (numeric.operator) {
+    case 'eq': query.where.push(`${value} = ?`); break;
+    case 'gt': query.where.push(`${value} > ?`); break;
+    case 'gte': query.where.push(`${value} >= ?`); break;
+    case 'lt': query.where.push(`${value} < ?`); break;
+    case 'lte': query.where.push(`${value} <= ?`); break;
+    case 'between':
+      if (numeric.secondValue === undefined) {
+        query.where.push('0');
+        return;
+      }
+      query.where.push(`${value} BETWEEN ? AND ?`);
+      query.params.push(numeric.value, numeric.secondValue);
+      return;
+    default: return;
+  }
+  query.params.push(numeric.value);
+}
+
+// Every match mode but 'alias' implies the value occurs somewhere in the column,
+// which keeps the SQL a superset of the exact per-item matching done in memory.
+// Exclusions are left to memory, since a substring match would drop too much
+function compileCategorical(query: CompiledQuery, column: string, filter: MultiSelectFilter | string[]): void {
+  const { values, matchMode, matchAny } = toSelection(filter);
+  if (values.length === 0 || matchMode === 'alias' || !values.every(isAscii)) return;
+
+  const conditions = values.map(() => `instr(lower(a.${column}), ?) > 0`);
+  query.where.push(`(${conditions.join(matchAny ? ' OR ' : ' AND ')})`);
+  query.params.push(...values.map(value => value.toLowerCase()));
+}
+
+function compileText(query: CompiledQuery, column: string, filter: TextFilter): void {
+  if (!isAscii(filter.query)) return;
+  query.where.push(filter.exact ? `lower(a.${column}) = ?` : `instr(lower(a.${column}), ?) > 0`);
+  query.params.push(filter.query.toLowerCase());
+}
+
+// Quote each word so user input cannot use FTS5 syntax; any word may match, like the in-memory search
+function toMatchExpression(text: string, exact?: boolean): string | null {
+  const words = text.split(/\s+/).filter(word => /[0-9a-z\u00c0-\uffff]/i.test(word));
+  if (words.length === 0) return null;
+  return words.map(word => `"${word.replace(/"/g, '""')}"${exact ? '' : '*'}`).join(' OR ');
+}
+
+// Top-level filters only; boolean groups, derived fields and dates are evaluated in memory
+function compileFilters(filters: AnimeFilters): CompiledQuery {
+  const query: CompiledQuery = { where: [], params: [] };
+
+  for (const [key, column] of Object.entries(TEXT_COLUMNS)) {
+    const filter = filters[key as keyof typeof TEXT_COLUMNS];
+    if (filter) compileText(query, column, filter);
+  }
+  for (const [key, column] of Object.entries(NUMERIC_COLUMNS)) {
+    const filter = filters[key as keyof typeof NUMERIC_COLUMNS];
+    if (filter) compileNumeric(query, column, filter);
+  }
+  for (const [key, column] of Object.entries(CATEGORICAL_COLUMNS)) {
+    const filter = filters[key as keyof typeof CATEGORICAL_COLUMNS];
+    if (filter) compileCategorical(query, column, filter);
+  }
+
+  return query;
+}
+
+// The scraper stores durations as whole minutes; the dataset keeps MAL's "24 min. per ep." wording
+function toRecordValue(column: string, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (column === 'Duration' && typeof value === 'number') return `${value} min. per ep.`;
+  return String(value);
+}
+
+export function createSqliteStore(filePath: string): AnimeStore {
+  let connection: BetterSqlite3.Database | null = null;
+  let indexedVersion: number | null = null;
+
+  async function getVersion(): Promise<number> {
+    // Writes in WAL mode land in the -wal file until the next checkpoint
+    const [database, wal] = await Promise.all([
+      stat(filePath).catch((error: NodeJS.ErrnoException) => {
+        throw error.code === 'ENOENT'
+          ? new Error(`Anime database not found at ${filePath}. Set ANIME_SQLITE_PATH to the scraper's mal_data.db`)
+          : error;
+      }),
+      stat(`${filePath}-wal`).catch(() => null),
+    ]);
+    return Math.max(database.mtimeMs, wal?.mtimeMs ?? 0);
+  }
+
+  // Loaded on first use, so the JSON backend works without the native module
+  async function getDatabase(): Promise<BetterSqlite3.Database> {
+    if (!connection) {
+      const { default: Database } = await import('better-sqlite3');
+      connection = new Database(filePath, { readonly: true, fileMustExist: true });
+    }
+    return connection;
+  }
+
+  // The search index lives in the connection's temp schema, so the scraper's file is never written
+  async function getSearchDatabase(): Promise<BetterSqlite3.Database> {
+    const [db, version] = await Promise.all([getDatabase(), getVersion()]);
+    if (indexedVersion !== version) {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS temp.anime_search
+          USING fts5(title, english, japanese, synonyms, description, tokenize = 'unicode61 remove_diacritics 2', prefix = '2 3');
+        DELETE FROM temp.anime_search;
+        INSERT INTO temp.anime_search (rowid, title, english, japanese, synonyms, description)
+          SELECT mal_id, title, title_english, title_japanese, title_synonyms, description
+          FROM anime_data WHERE mal_id IS NOT NULL GROUP BY mal_id;
+      `);
+      indexedVersion = version;
+    }
+    return db;
+  }
+
+  return {
+    backend: 'sqlite',
+    location: filePath,
+    getVersion,
+
+    async readRows() {
+      const db = await getDatabase();
+      const records = db.prepare(`SELECT ${ANIME_COLUMNS} FROM anime_data a ORDER BY a.scraped_at`)
+        .all()
+        .map((row, index) => ({
+          line: index + 1,
+          row: Object.fromEntries(Object.entries(row as Record<string, unknown>).map(([column, value]) => [column, toRecordValue(column, value)])),
+        }));
+
+      const { rows, quarantined, duplicateCount } = ingestAnimeRecords(records);
+      if (quarantined.length > 0 || duplicateCount > 0) {
+        console.warn(`[loadAnimeData] Skipped ${quarantined.length} invalid and ${duplicateCount} duplicate rows in ${filePath}`);
+      }
+      return rows;
+    },
+
+    async query(filters: AnimeFilters, conditions: SqlCondition[] = []): Promise<StoreMatches | null> {
+      const compiled = compileFilters(filters);
+      compiled.where.push(...conditions.map(condition => `(${condition.sql})`));
+      compiled.params.push(...conditions.flatMap(condition => condition.params ?? []));
+
+      const match = filters.search ? toMatchExpression(filters.search.query, filters.search.exact) : null;
+      if (compiled.where.length === 0 && match === null) return null;
+
+      // Search relevance uses the same field weights as the in-memory index
+      const sql = match !== null
+        ? `SELECT a.mal_id AS id, -bm25(anime_search, 2, 2, 1, 1, 1) AS relevance
+           FROM temp.anime_search JOIN anime_data a ON a.mal_id = anime_search.rowid
+           WHERE anime_search MATCH ?${compiled.where.map(condition => ` AND ${condition}`).join('')}`
+        : `SELECT a.mal_id AS id FROM anime_data a WHERE ${compiled.where.join(' AND ')}`;
+
+      const db = match !== null ? await getSearchDatabase() : await getDatabase();
+      const rows = db.prepare(sql).all(...(match !== null ? [match] : []), ...compiled.params) as Array<{ id: number; relevance?: number }>;
+
+      return {
+        ids: new Set(rows.map(row => row.id)),
+        relevance: new Map(rows.filter(row => row.relevance !== undefined).map(row => [row.id, row.relevance!])),
+        searched: match !== null,
+      };
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import type { Anime } from './anime';
+import { createDatasetLoader, toNumberOrNull } from './datasets';
+
+// Watch-status counts and score histograms from the statistics export, and the analytics derived from them
+
+export interface WatchStatistics {
+  watching: number;
+  completed: number;
+  onHold: number;
+  dropped: number;
+  planToWatch: number;
+  scoreDistribution: number[]; // votes for scores 1 to 10
+}
+
+export interface WatchAnalytics {
+  completionRate: number | null; // % of users who started it and completed it
+  dropRate: number | null; // % of users who started it and dropped it
+  scoreMean: number | null; // mean of the score histogram
+  scoreStdDev: number | null;
+  polarization: number | null; // 0-1; 1 = votes split evenly between 1-4 and 9-10
+}
+
+export interface CohortAnalytics {
+  titleCount: number;
+  withStatistics: number; // titles the averages are computed over
+  averageCompletionRate: number | null;
+  averageDropRate: number | null;
+  medianDropRate: number | null;
+  averageScoreStdDev: number | null;
+  divisiveCount: number;
+}
+
+// Fewer votes than this say little about how a title is received
+export const MIN_DISTRIBUTION_VOTES = 100;
+
+// A title is divisive when its scores spread widely and both ends of the scale hold many votes
+const DIVISIVE_STD_DEV = 2;
+const DIVISIVE_POLARIZATION = 0.3;
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const loadStatistics = createDatasetLoader('anime-statistics.json', row => ({
+  malId: toNumberOrNull(row.MAL_ID),
+  statistics: {
+    watching: toNumberOrNull(row.Watching) ?? 0,
+    completed: toNumberOrNull(row.Completed) ?? 0,
+    onHold: toNumberOrNull(row.On_Hold) ?? 0,
+    dropped: toNumberOrNull(row.Dropped) ?? 0,
+    planToWatch: toNumberOrNull(row.Plan_to_Watch) ?? 0,
+    scoreDistribution: Array.from({ length: 10 }, (_, i) => toNumberOrNull(row[`Score_${i + 1}`]) ?? 0),
+  } satisfies WatchStatistics,
+}));
+
+export function computeWatchAnalytics(statistics: WatchStatistics): WatchAnalytics {
+  // Plan-to-watch users have not started yet, so they count towards neither rate
+  const started = statistics.watching + statistics.completed + statistics.onHold + statistics.dropped;
+  const votes = statistics.scoreDistribution.reduce((sum, count) => sum + count, 0);
+
+  let scoreMean: number | null = null;
+  let scoreStdDev: number | null = null;
+  let polarization: number | null = null;
+  if (votes > 0) {
+    const mean = statistics.scoreDistribution.reduce((sum, count, i) => sum + count * (i + 1), 0) / votes;
+    const variance = statistics.scoreDistribution.reduce((sum, count, i) => sum + count * (i + 1 - mean) ** 2, 0) / votes;
+    const low = statistics.scoreDistribution.slice(0, 4).reduce((sum, count) => sum + count, 0) / votes;
+    const high = statistics.scoreDistribution.slice(8).reduce((sum, count) => sum + count, 0) / votes;
+
+    scoreMean = round(mean, 2);
+    scoreStdDev = round(Math.sqrt(variance), 2);
+    polarization = round(2 * Math.min(low, high), 3);
+  }
+
+  return {
+    completionRate: started > 0 ? round(statistics.completed / started * 100, 1) : null,
+    dropRate: started > 0 ? round(statistics.dropped / started * 100, 1) : null,
+    scoreMean,
+    scoreStdDev,
+    polarization,
+  };
+}
+
+export function isDivisive(anime: Pick<Anime, 'watchStatistics' | 'scoreStdDev' | 'polarization'>): boolean {
+  const votes = anime.watchStatistics?.scoreDistribution.reduce((sum, count) => sum + count, 0) ?? 0;
+  return votes >= MIN_DISTRIBUTION_VOTES &&
+    (anime.scoreStdDev ?? 0) >= DIVISIVE_STD_DEV &&
+    (anime.polarization ?? 0) >= DIVISIVE_POLARIZATION;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 2) : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : round((sorted[middle - 1] + sorted[middle]) / 2, 2);
+}
+
+// Aggregate analytics over a group of titles, e.g. every long TV show scored above 8
+export function summarizeCohort(data: Anime[]): CohortAnalytics {
+  const withStatistics = data.filter(anime => anime.watchStatistics !== null);
+  const values = (field: 'completionRate' | 'dropRate' | 'scoreStdDev') =>
+    withStatistics.map(anime => anime[field]).filter((value): value is number => value !== null);
+
+  return {
+    titleCount: data.length,
+    withStatistics: withStatistics.length,
+    averageCompletionRate: average(values('completionRate')),
+    averageDropRate: average(values('dropRate')),
+    medianDropRate: median(values('dropRate')),
+    averageScoreStdDev: average(values('scoreStdDev')),
+    divisiveCount: withStatistics.filter(isDivisive).length,
+  };
+}
+
+// Share of the cohort (in %) whose value is below this title's, e.g. a drop-rate percentile
+export function getPercentile(data: Anime[], anime: Anime, field: 'completionRate' | 'dropRate' | 'scoreStdDev'): number | null {
+  const value = anime[field];
+  if (value === null) return null;
+  const values = data.map(other => other[field]).filter((other): other is number => other !== null);
+  return values.length > 0 ? round(values.filter(other => other < value).length / values.length * 100, 1) : null;
+}
@@ -0,0 +1,95 @@
+import type { AnimeFilters } from './anime';
+import { getDatasetPath } from './datasets';
+import { getDatasetMtime, readVerifiedDataset } from './ingest';
+import { createSqliteStore } from './sqlite';
+
+// Where the anime dataset is read from: anime-data.json written by `pnpm ingest` (default),
+// or the scraper's SQLite database when ANIME_STORAGE=sqlite
+
+export type StorageBackend = 'json' | 'sqlite';
+
+// Extra condition on the anime row (aliased `a`), e.g. an EXISTS subquery against characters or reviews
+export interface SqlCondition {
+  sql: string;
+  params?: Array<string | number>;
+}
+
+// Anime a backend matched itself, by MAL id
+export interface StoreMatches {
+  ids: Set<number>;
+  relevance: Map<number, number>; // text search score, when the backend ran the search
+  searched: boolean;
+}
+
+export interface AnimeStore {
+  backend: StorageBackend;
+  location: string;
+  // Changes whenever the stored rows change, so the normalized dataset can be cached
+  getVersion(): Promise<number>;
+  // Every anime row, in the layout of anime-data.json
+  readRows(): Promise<Array<Record<string, unknown>>>;
+  // Narrow a filter's candidates in the backend, or null when it can evaluate none of the filters.
+  // Apart from the search, matches may be a superset: the in-memory engine re-applies the other filters
+  query?(filters: AnimeFilters, conditions?: SqlCondition[]): Promise<StoreMatches | null>;
+}
+
+function createJsonStore(filePath: string): AnimeStore {
+  return {
+    backend: 'json',
+    location: filePath,
+
+    async getVersion() {
+      return getDatasetMtime(filePath).catch((error: NodeJS.ErrnoException) => {
+        throw error.code === 'ENOENT'
+          ? new Error(`Anime dataset not found at ${filePath}. Run \`pnpm ingest\` to build it`)
+          : error;
+      });
+    },
+
+    async readRows() {
+      const { rows, manifest } = await readVerifiedDataset(filePath, raw => {
+        let rows: Array<Record<string, unknown>>;
+        try {
+          rows = JSON.parse(raw);
+        } catch (error) {
+          throw new Error(`Anime dataset ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!Array.isArray(rows)) {
+          throw new Error(`Anime dataset ${filePath} must contain an array of anime`);
+        }
+        return rows;
+      });
+
+      // Datasets written by `pnpm ingest` carry a manifest. ANIME_ALLOW_UNVERIFIED_DATASET=true
+      // loads hand-made files without one, unchecked
+      if (!manifest) {
+        if (process.env.ANIME_ALLOW_UNVERIFIED_DATASET !== 'true') {
+          throw new Error(`Anime dataset ${filePath} has no manifest. Run \`pnpm ingest\` to rebuild it`);
+        }
+        console.warn(`[loadAnimeData] ${filePath} has no manifest and is loaded without verification`);
+      }
+
+      return rows;
+    },
+  };
+}
+
+// The store is reused until ANIME_STORAGE or the database path changes
+let currentStore: AnimeStore | null = null;
+
+export function getAnimeStore(): AnimeStore {
+  const backend = process.env.ANIME_STORAGE?.trim().toLowerCase() || 'json';
+  if (backend !== 'json' && backend !== 'sqlite') {
+    throw new Error(`Unknown ANIME_STORAGE "${process.env.ANIME_STORAGE}". Use "json" or "sqlite"`);
+  }
+
+  // mal_data.db is the file name the scraper writes
+  const location = backend === 'sqlite'
+    ? process.env.ANIME_SQLITE_PATH || getDatasetPath('mal_data.db')
+    : getDatasetPath('anime-data.json');
+
+  if (!currentStore || currentStore.backend !== backend || currentStore.location !== location) {
+    currentStore = backend === 'sqlite' ? createSqliteStore(location) : createJsonStore(location);
+  }
+  return currentStore;
+}
@@ -1,4 +1,5 @@
 import { create } from "zustand";
+import type { ModelOption } from "./models";
 
 type PendingMessageStore = {
   pendingMessage?: string;
@@ -18,4 +19,33 @@ export const usePendingMessageStore = create<PendingMessageStore>((set: SetFn<Pe
   clearPendingMessage: () => set(() => ({ pendingMessage: undefined, pendingConsumed: false })),
 }));
 
+// Models from the server-side registry, and the one picked on either page
+type ModelStore = {
+  models: ModelOption[];
+  model?: string;
+  loaded: boolean;
+  setModel: (id: string) => void;
+  loadModels: () => Promise<void>;
+};
+
+export const useModelStore = create<ModelStore>((set, get) => ({
+  models: [],
+  model: undefined,
+  loaded: false,
+  setModel: (id: string) => set(() => ({ model: id })),
+  loadModels: async () => {
+    if (get().loaded) return;
+    set(() => ({ loaded: true }));
+    try {
+      const response = await fetch("/api/models");
+      if (!response.ok) throw new Error(`Model list request failed (${response.status})`);
+      const { models, defaultModel }: { models: ModelOption[]; defaultModel: string } = await response.json();
+      set((state) => ({ models, model: state.model ?? defaultModel }));
+    } catch (error) {
+      console.error("[useModelStore] Failed to load models:", error);
+      set(() => ({ loaded: false }));
+    }
+  },
+}));
+
 export default usePendingMessageStore;
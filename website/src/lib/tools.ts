@@ -1,28 +1,563 @@
-import { tool } from "ai";
+import { tool, type Tool } from "ai";
 import { z } from "zod";
 import { 
   loadAnimeData, 
-  searchAnimeByText, 
-  filterAnime, 
+  filterAnimeFromStore,
+  computeFacets,
+  findAnimeByTitle,
   getUniqueValues, 
+  getUnknownFilterValues,
   getFieldStatistics,
   type Anime,
-  type AnimeFilters
+  type AnimeFilters,
+  type MultiSelectFilter
 } from "./anime";
+import { semanticSearch } from "./semantic";
+import { findSimilarAnime } from "./similarity";
+import { createResultPage, getResultPage, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./results";
+import { toBudgetedModelOutput, DEFAULT_TOKEN_BUDGET, MAX_TOKEN_BUDGET, type OutputBudget } from "./budget";
+import {
+  loadCharacters,
+  loadStaff,
+  searchCharacters,
+  getAnimeCast,
+  findAnimeByVoiceActor,
+  findAnimeByStaff,
+  type PersonCredits
+} from "./people";
+import {
+  loadReviews,
+  getAnimeReviews,
+  filterAnimeByAspectScores,
+  REVIEW_ASPECTS,
+  type AspectFilters
+} from "./reviews";
+import { loadRecommendations, getCommunityRecommendations } from "./recommendations";
+import { loadRelations, getFranchise, groupByFranchise, type FranchiseEntry } from "./franchise";
+import { searchThemeSongs, type ThemeSong } from "./songs";
+import { summarizeCohort, isDivisive, getPercentile, computeWatchAnalytics } from "./statistics";
+import {
+  loadEpisodes,
+  getSeriesEpisodes,
+  getBestEpisodes,
+  findEpisodesByAirDate,
+  getScoreSparkline,
+  type AnimeEpisode
+} from "./episodes";
+
+const matchModeSchema = z.enum(['exact', 'prefix', 'substring', 'alias']).optional()
+  .describe("How genre, theme, type, status, studio, demographic, source, rating and artist values are matched: 'exact' canonical values (use getAnimeOptions to list them), 'prefix', 'substring', or 'alias' to accept variants like 'shonen' or 'sci fi' (default: exact)");
+
+const pageSizeSchema = z.number().optional()
+  .describe(`Results per page (default: ${DEFAULT_PAGE_SIZE}, max: ${MAX_PAGE_SIZE}). When more results exist, pass nextCursor to getMoreResults`);
+
+// Projection and token budget for paged results; they shape what the model reads, the chat UI still shows full rows
+const outputBudgetShape = {
+  fields: z.array(z.string()).optional()
+    .describe("Only return these fields of each result (e.g., ['title', 'score', 'genres']); identifiers such as malId and title are always kept. Leave out description and other long fields when they are not needed"),
+  maxTokens: z.number().optional()
+    .describe(`Token budget for the page of results (default: ${DEFAULT_TOKEN_BUDGET}, max: ${MAX_TOKEN_BUDGET}). Results that do not fit start the next page; long text is shortened`),
+};
+
+// Criteria shared by the filter tools and by each boolean filter group
+const filterCriteriaShape = {
+  // Text search
+  searchQuery: z.string().optional().describe("Text to search for in titles and descriptions"),
+  
+  // Numeric filters
+  minScore: z.number().optional().describe("Minimum score (0-10)"),
+  maxScore: z.number().optional().describe("Maximum score (0-10)"),
+  minEpisodes: z.number().optional().describe("Minimum number of episodes"),
+  maxEpisodes: z.number().optional().describe("Maximum number of episodes"),
+  minDuration: z.number().optional().describe("Minimum minutes per episode"),
+  maxDuration: z.number().optional().describe("Maximum minutes per episode"),
+  minRank: z.number().optional().describe("Minimum rank"),
+  maxRank: z.number().optional().describe("Maximum rank"),
+  minFavorites: z.number().optional().describe("Minimum number of MyAnimeList users who favorited it"),
+  minCompletionRate: z.number().optional().describe("Minimum % of users who started it and completed it (0-100)"),
+  maxDropRate: z.number().optional().describe("Maximum % of users who started it and dropped it (0-100)"),
+  minScoreStdDev: z.number().optional().describe("Minimum standard deviation of user scores (spread of opinions; 1.5 is typical, 2+ is wide)"),
+  divisive: z.boolean().optional().describe("true = only divisive titles (love-it-or-hate-it scores), false = exclude them"),
+  
+  // Categorical filters
+  genres: z.array(z.string()).optional().describe("Genres to filter by (e.g., ['Action', 'Drama'])"),
+  matchAllGenres: z.boolean().optional().describe("If true, anime must have ALL listed genres; if false, ANY listed genre (default: false)"),
+  themes: z.array(z.string()).optional().describe("Themes to filter by (e.g., ['Isekai', 'Time Travel'])"),
+  matchAllThemes: z.boolean().optional().describe("If true, anime must have ALL listed themes; if false, ANY listed theme (default: false)"),
+  types: z.array(z.string()).optional().describe("Anime types (e.g., ['TV', 'Movie', 'OVA'])"),
+  statuses: z.array(z.string()).optional().describe("Status (e.g., ['Finished Airing', 'Currently Airing'])"),
+  studios: z.array(z.string()).optional().describe("Animation studios"),
+  demographics: z.array(z.string()).optional().describe("Target demographics (e.g., ['Shounen', 'Seinen'])"),
+  sources: z.array(z.string()).optional().describe("Source material (e.g., ['Manga', 'Light novel'])"),
+  ratings: z.array(z.string()).optional().describe("Content ratings (e.g., ['PG-13 - Teens 13 or older', 'R - 17+ (violence & profanity)'])"),
+  artists: z.array(z.string()).optional().describe("Opening or ending theme song performers (e.g., ['LiSA', 'Aimer'])"),
+  matchMode: matchModeSchema,
+  
+  // Date filters
+  startYear: z.string().optional().describe("Earliest year to include (YYYY format)"),
+  endYear: z.string().optional().describe("Latest year to include (YYYY format)"),
+};
+
+const filterGroupSchema = z.object(filterCriteriaShape);
+
+type FilterCriteria = z.infer<typeof filterGroupSchema>;
+
+// Boolean filter groups, e.g. "(Romance AND Comedy) OR (Slice of Life AND score >= 8), NOT Harem"
+const filterGroupsShape = {
+  and: z.array(filterGroupSchema).optional().describe("Groups of criteria that must ALL match"),
+  or: z.array(filterGroupSchema).optional().describe("Groups of criteria where at least ONE must match (e.g., [{ genres: ['Romance', 'Comedy'], matchAllGenres: true }, { genres: ['Slice of Life'], minScore: 8 }])"),
+  not: filterGroupSchema.optional().describe("Group of criteria that must NOT match (e.g., { genres: ['Harem'] })"),
+};
+
+type FilterGroups = {
+  and?: FilterCriteria[];
+  or?: FilterCriteria[];
+  not?: FilterCriteria;
+};
+
+// Translate flat tool criteria into AnimeFilters
+function toAnimeFilters(params: FilterCriteria): AnimeFilters {
+  const filters: AnimeFilters = {};
+  const matchMode = params.matchMode ?? 'exact';
+  const select = (values: string[], matchAny = true): MultiSelectFilter => ({ values, matchAny, matchMode });
+  
+  if (params.searchQuery) {
+    filters.search = { query: params.searchQuery };
+  }
+  
+  if (params.minScore !== undefined || params.maxScore !== undefined) {
+    filters.score = {
+      min: params.minScore,
+      max: params.maxScore
+    };
+  }
+  
+  if (params.minEpisodes !== undefined || params.maxEpisodes !== undefined) {
+    filters.episodes = {
+      min: params.minEpisodes,
+      max: params.maxEpisodes
+    };
+  }
+  
+  if (params.minDuration !== undefined || params.maxDuration !== undefined) {
+    filters.minutesPerEpisode = {
+      min: params.minDuration,
+      max: params.maxDuration
+    };
+  }
+  
+  if (params.minRank !== undefined || params.maxRank !== undefined) {
+    filters.rank = {
+      min: params.minRank,
+      max: params.maxRank
+    };
+  }
+  
+  if (params.minFavorites !== undefined) {
+    filters.favorites = { min: params.minFavorites };
+  }
+  
+  if (params.minCompletionRate !== undefined) {
+    filters.completionRate = { min: params.minCompletionRate };
+  }
+  
+  if (params.maxDropRate !== undefined) {
+    filters.dropRate = { max: params.maxDropRate };
+  }
+  
+  if (params.minScoreStdDev !== undefined) {
+    filters.scoreStdDev = { min: params.minScoreStdDev };
+  }
+  
+  if (params.divisive !== undefined) {
+    filters.divisive = params.divisive;
+  }
+  
+  if (params.genres && params.genres.length > 0) {
+    filters.genres = select(params.genres, !params.matchAllGenres);
+  }
+  
+  if (params.themes && params.themes.length > 0) {
+    filters.themes = select(params.themes, !params.matchAllThemes);
+  }
+  
+  if (params.types && params.types.length > 0) {
+    filters.type = select(params.types);
+  }
+  
+  if (params.statuses && params.statuses.length > 0) {
+    filters.status = select(params.statuses);
+  }
+  
+  if (params.studios && params.studios.length > 0) {
+    filters.studios = select(params.studios);
+  }
+  
+  if (params.demographics && params.demographics.length > 0) {
+    filters.demographic = select(params.demographics);
+  }
+  
+  if (params.sources && params.sources.length > 0) {
+    filters.source = select(params.sources);
+  }
+  
+  if (params.ratings && params.ratings.length > 0) {
+    filters.rating = select(params.ratings);
+  }
+  
+  if (params.artists && params.artists.length > 0) {
+    filters.artists = select(params.artists);
+  }
+  
+  if (params.startYear || params.endYear) {
+    filters.aired = {
+      start: params.startYear,
+      end: params.endYear
+    };
+  }
+  
+  return filters;
+}
+
+// Anime rows for voice actor and staff credits, with the roles that matched
+function toCreditRows(matches: PersonCredits[]) {
+  return matches.map(({ anime, credits }) => ({
+    malId: anime.MAL_ID,
+    title: anime.Title,
+    englishTitle: anime.English,
+    score: anime.Score,
+    episodes: anime.Episodes,
+    type: anime.Type,
+    status: anime.Status,
+    genres: anime.Genres,
+    themes: anime.Themes,
+    studios: anime.Studios,
+    year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+    imageUrl: anime.imageUrl,
+    trailerUrl: anime.trailerUrl,
+    credits
+  }));
+}
+
+const MISSING_CHARACTERS_MESSAGE = "Character data is not available. Place mal_characters.csv next to the anime CSV and run `pnpm ingest`";
+const MISSING_STAFF_MESSAGE = "Staff data is not available. Place mal_staff.csv next to the anime CSV and run `pnpm ingest`";
+
+const MISSING_REVIEWS_MESSAGE = "Review data is not available. Place mal_reviews.csv next to the anime CSV and run `pnpm ingest`";
+
+const MISSING_RELATIONS_MESSAGE = "Franchise data is not available. Place mal_related_anime.csv next to the anime CSV and run `pnpm ingest`";
+
+const MISSING_EPISODES_MESSAGE = "Episode data is not available. Place mal_episodes.csv next to the anime CSV and run `pnpm ingest`";
+
+// The fields every anime result row shares. Descriptions are passed whole: the output budget
+// shortens them for the model (see toBudgetedModelOutput)
+function toAnimeRow(anime: Anime) {
+  return {
+    malId: anime.MAL_ID,
+    title: anime.Title,
+    englishTitle: anime.English,
+    score: anime.Score,
+    episodes: anime.Episodes,
+    type: anime.Type,
+    status: anime.Status,
+    genres: anime.Genres,
+    themes: anime.Themes,
+    description: anime.Description,
+    year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+    imageUrl: anime.imageUrl,
+    trailerUrl: anime.trailerUrl,
+  };
+}
+
+function toEpisodeRow(episode: AnimeEpisode) {
+  return {
+    number: episode.number,
+    title: episode.title,
+    titleJapanese: episode.titleJapanese,
+    aired: episode.aired,
+    score: episode.score,
+    votes: episode.votes,
+    filler: episode.filler,
+    recap: episode.recap
+  };
+}
+
+const groupFranchisesSchema = z.boolean().optional()
+  .describe("Collapse seasons, movies and side stories of the same franchise into their best-ranked entry, so one show does not fill the results");
+
+// Collapse results of one franchise into the first of them, when relation data has been ingested
+async function collapseFranchises<T extends Anime>(
+  animeData: Anime[],
+  results: T[],
+  enabled?: boolean
+): Promise<{ results: T[]; others: Map<T, T[]> }> {
+  const relations = enabled ? await loadRelations() : null;
+  return relations ? groupByFranchise(animeData, relations, results) : { results, others: new Map() };
+}
+
+// Watch-order rows, with the filler and recap episodes of each entry when episode data has been ingested
+function toWatchOrderRows(entries: FranchiseEntry[], episodes: AnimeEpisode[] | null) {
+  return entries.map(({ anime, kind, optional, note }, i) => {
+    const seriesEpisodes = episodes ? getSeriesEpisodes(episodes, anime.MAL_ID) : [];
+    const skippable = seriesEpisodes.filter(episode => episode.filler || episode.recap).map(episode => episode.number);
+    return {
+      position: i + 1,
+      malId: anime.MAL_ID,
+      title: anime.Title,
+      englishTitle: anime.English,
+      type: anime.Type,
+      episodes: anime.Episodes,
+      year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+      score: anime.Score,
+      kind,
+      optional,
+      note,
+      ...(skippable.length > 0 && { fillerAndRecapEpisodes: skippable })
+    };
+  });
+}
+
+function toThemeSongRow(song: ThemeSong) {
+  return {
+    kind: song.kind,
+    sequence: song.sequence,
+    title: song.title,
+    titleNative: song.titleNative,
+    artist: song.artist,
+    episodes: song.episodes
+  };
+}
+
+const MISSING_RECOMMENDATIONS_MESSAGE = "Recommendation data is not available. Place mal_recommendations.csv next to the anime CSV and run `pnpm ingest`";
+
+const reviewScoreFieldSchema = z.enum(['overall', ...REVIEW_ASPECTS]);
+
+// Translate tool filter groups into the boolean groups of AnimeFilters
+function toFilterGroups(params: FilterGroups): Pick<AnimeFilters, 'and' | 'or' | 'not'> {
+  const groups: Pick<AnimeFilters, 'and' | 'or' | 'not'> = {};
+  
+  if (params.and && params.and.length > 0) {
+    groups.and = params.and.map(toAnimeFilters);
+  }
+  
+  if (params.or && params.or.length > 0) {
+    groups.or = params.or.map(toAnimeFilters);
+  }
+  
+  if (params.not) {
+    groups.not = toAnimeFilters(params.not);
+  }
+  
+  return groups;
+}
+
+// queryAnime criteria, named and shaped like their AnimeFilters fields
+const rangeSchema = (description: string) => z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+}).optional().describe(description);
+
+const selectSchema = (description: string) => z.object({
+  values: z.array(z.string()).optional().describe("Values to include"),
+  exclude: z.array(z.string()).optional().describe("Values to exclude: anime matching any of them are dropped"),
+  matchAny: z.boolean().optional().describe("true = ANY included value is enough (default), false = ALL are required"),
+  matchMode: z.enum(['exact', 'prefix', 'substring', 'alias']).optional()
+    .describe("'exact' canonical values (default; use getAnimeOptions to list them), 'prefix', 'substring', or 'alias' to accept variants like 'shonen' or 'sci fi'"),
+}).optional().describe(description);
+
+const textFilterSchema = (description: string) => z.object({
+  query: z.string(),
+  exact: z.boolean().optional().describe("Match the whole value instead of a substring"),
+  caseSensitive: z.boolean().optional(),
+}).optional().describe(description);
+
+const queryCriteriaShape = {
+  search: z.object({
+    query: z.string(),
+    exact: z.boolean().optional().describe("Turn off fuzzy and prefix matching"),
+  }).optional().describe("Fuzzy search over titles, synonyms and descriptions; results are ranked by relevance unless sorted"),
+  title: textFilterSchema("Text in the romaji title"),
+  english: textFilterSchema("Text in the English title"),
+  japanese: textFilterSchema("Text in the Japanese title"),
+  description: textFilterSchema("Text in the synopsis"),
+
+  score: rangeSchema("MyAnimeList score (0-10)"),
+  popularity: rangeSchema("Popularity rank (1 = most members)"),
+  rank: rangeSchema("Score rank (1 = highest rated)"),
+  members: rangeSchema("MyAnimeList members who added it to their list"),
+  favorites: rangeSchema("MyAnimeList users who favorited it"),
+  scoreCount: rangeSchema("Number of users who scored it"),
+  episodes: rangeSchema("Number of episodes"),
+  minutesPerEpisode: rangeSchema("Minutes per episode"),
+  totalRuntimeMinutes: rangeSchema("Total runtime in minutes"),
+  completionRate: rangeSchema("% of users who started it and completed it (0-100)"),
+  dropRate: rangeSchema("% of users who started it and dropped it (0-100)"),
+  scoreStdDev: rangeSchema("Standard deviation of user scores (1.5 is typical, 2+ is wide)"),
+  polarization: rangeSchema("Share of votes at both ends of the scale (0-1)"),
+  divisive: z.boolean().optional().describe("true = only divisive titles (love-it-or-hate-it scores), false = exclude them"),
+
+  type: selectSchema("Anime types (e.g., TV, Movie, OVA)"),
+  status: selectSchema("Airing status (e.g., Finished Airing, Currently Airing)"),
+  genres: selectSchema("Genres (e.g., Action, Drama)"),
+  themes: selectSchema("Themes (e.g., Isekai, Time Travel)"),
+  demographic: selectSchema("Target demographic (e.g., Shounen, Seinen)"),
+  studios: selectSchema("Animation studios"),
+  producers: selectSchema("Producers"),
+  source: selectSchema("Source material (e.g., Manga, Light novel)"),
+  rating: selectSchema("Content rating (e.g., PG-13 - Teens 13 or older)"),
+  artists: selectSchema("Opening or ending theme song performers (e.g., LiSA)"),
+  premiered: selectSchema("Premiere season and/or year (e.g., 'Spring 2016', 'Fall' or '2016')"),
+  broadcastDay: selectSchema("Weekday it broadcasts on (e.g., Sunday)"),
+
+  aired: z.object({
+    start: z.string().optional(),
+    end: z.string().optional(),
+  }).optional().describe("Range of first air dates; bounds may be '2016', '2016-04' or '2016-04-03'"),
+};
+
+const querySortFieldSchema = z.enum([
+  'Score', 'Popularity', 'Rank', 'Members', 'Favorites', 'Score_Count', 'Episodes', 'Title', 'Aired',
+  'minutesPerEpisode', 'totalRuntimeMinutes', 'completionRate', 'dropRate', 'scoreStdDev', 'polarization', '_relevance'
+]);
+
+const querySchema = z.object({
+  ...queryCriteriaShape,
+  and: z.array(z.object(queryCriteriaShape)).optional().describe("Groups of criteria that must ALL match"),
+  or: z.array(z.object(queryCriteriaShape)).optional().describe("Groups of criteria where at least ONE must match"),
+  not: z.object(queryCriteriaShape).optional().describe("Group of criteria that must NOT match"),
+  sort: z.array(z.object({
+    field: querySortFieldSchema,
+    direction: z.enum(['asc', 'desc']),
+  })).optional().describe("Sort keys in order of priority ('_relevance' ranks search matches; the default when searching)"),
+  limit: z.number().optional().describe("Maximum number of results to return (default: all results)"),
+  offset: z.number().optional().describe("Number of results to skip"),
+  facets: z.object({
+    fields: z.array(z.enum(['genres', 'themes', 'type', 'status', 'demographic', 'source', 'rating', 'studios', 'artists', 'year'])),
+    limit: z.number().optional().describe("Maximum values per facet (default: 10)"),
+    yearBucketSize: z.number().optional().describe("Years per 'year' bucket: 10 for decades (default), 1 for single years"),
+  }).optional().describe("Counts of the most common values of these fields across all matches (before limit/offset), e.g. to suggest ways to narrow the results"),
+  pageSize: pageSizeSchema,
+  groupFranchises: groupFranchisesSchema,
+  ...outputBudgetShape,
+});
+
+const SELECT_CRITERIA = [
+  'type', 'status', 'genres', 'themes', 'demographic', 'studios', 'producers', 'source', 'rating', 'artists', 'premiered', 'broadcastDay',
+] as const;
+
+// Categorical criteria match canonical values exactly unless a matchMode is given, like the legacy filter tools
+function withExactMatching(filters: AnimeFilters): AnimeFilters {
+  const mapped: AnimeFilters = { ...filters };
+  for (const key of SELECT_CRITERIA) {
+    const filter = filters[key];
+    if (filter && !Array.isArray(filter)) mapped[key] = { ...filter, matchMode: filter.matchMode ?? 'exact' };
+  }
+  if (filters.and) mapped.and = filters.and.map(withExactMatching);
+  if (filters.or) mapped.or = filters.or.map(withExactMatching);
+  if (filters.not) mapped.not = withExactMatching(filters.not);
+  return mapped;
+}
+
+// Candidates narrowed by a tool's optional criteria through the configured store, like runAnimeQuery,
+// or undefined when no criteria were given
+async function filterCandidates(filters: AnimeFilters): Promise<Anime[] | undefined> {
+  return Object.keys(filters).length > 0 ? (await filterAnimeFromStore(filters)).getData() : undefined;
+}
+
+// Run a query through the configured store and page its rows. queryAnime, the legacy
+// filter tools and the chat route's query parser share it, so they all return the same row shape
+export async function runAnimeQuery(filters: AnimeFilters, options: { pageSize?: number; groupFranchises?: boolean } & OutputBudget) {
+  const animeData = await loadAnimeData();
+  const filtered = await filterAnimeFromStore(filters);
+  const { results, others } = await collapseFranchises(animeData, filtered.getRankedData(), options.groupFranchises);
+  // Grouped results are counted one franchise at a time, so the facets describe the rows returned
+  // rather than the entries folded into otherFranchiseEntries
+  const facets = options.groupFranchises && filters.facets ? computeFacets(results, filters.facets) : filtered.getFacets();
+  
+  // Report values that match nothing, so the model can correct them via getAnimeOptions
+  const unknownValues = getUnknownFilterValues(animeData, filters);
+  
+  if (results.length === 0) {
+    return {
+      success: false,
+      message: unknownValues.length > 0
+        ? `No anime found matching the specified criteria. Unknown values: ${unknownValues.join(', ')}`
+        : "No anime found matching the specified criteria",
+      results: [],
+      totalCount: 0,
+      unknownValues
+    };
+  }
+  
+  const page = createResultPage(results.map(anime => ({
+      ...toAnimeRow(anime),
+      rank: anime.Rank,
+      popularity: anime.Popularity,
+      studios: anime.Studios,
+      demographic: anime.Demographic,
+      rating: anime.Rating,
+      source: anime.Source,
+      aired: anime.Aired,
+      completionRate: anime.completionRate,
+      dropRate: anime.dropRate,
+      relevance: anime._relevance,
+      otherFranchiseEntries: others.get(anime)?.map(other => other.Title)
+    })), options.pageSize, options);
+  
+  return {
+    success: true,
+    message: `Found ${results.length} anime matching the criteria` +
+      (page.nextCursor ? ` (showing the first ${page.results.length})` : ''),
+    results: page.results,
+    totalCount: results.length,
+    nextCursor: page.nextCursor,
+    budget: page.budget,
+    appliedFilters: Object.keys(filters).filter(key => key !== 'limit' && key !== 'offset' && key !== 'facets'),
+    unknownValues,
+    ...(facets ? { facets } : {})
+  };
+}
+
+// Every tool's output reaches the model through its budget: projected, shortened and summarized
+function withOutputBudget<T extends Record<string, Tool>>(toolSet: T): T {
+  for (const definition of Object.values(toolSet)) {
+    definition.toModelOutput = toBudgetedModelOutput;
+  }
+  return toolSet;
+}
+
+export const tools = withOutputBudget({
+  queryAnime: tool({
+    description: "Find anime with any combination of criteria: fuzzy text search, numeric ranges, categorical fields with values to include and to exclude (e.g., genres { values: ['Comedy'], exclude: ['Action'] }), air dates, and/or/not groups, sorting, pagination and facets",
+    inputSchema: querySchema,
+    execute: async ({ pageSize, groupFranchises, fields, maxTokens, ...filters }) => {
+      try {
+        return await runAnimeQuery(withExactMatching(filters), { pageSize, groupFranchises, fields, maxTokens });
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to query anime data",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
 
-export const tools = {
   searchAnime: tool({
-    description: "Search for anime by title, description, or other text content using fuzzy matching",
+    description: "Search for anime by title, description, or other text content using fuzzy matching. Results are ranked by relevance",
     inputSchema: z.object({
       query: z.string().describe("The search query to find anime (searches titles, descriptions, synonyms)"),
       limit: z.number().optional().describe("Maximum number of results to return (default: all results)"),
+      pageSize: pageSizeSchema,
+      groupFranchises: groupFranchisesSchema,
+      ...outputBudgetShape,
     }),
-    execute: async ({ query, limit }) => {
+    execute: async ({ query, limit, pageSize, groupFranchises, fields, maxTokens }) => {
       try {
         const animeData = await loadAnimeData();
-        const results = searchAnimeByText(animeData, query);
+        const results = (await filterAnimeFromStore({ search: { query } })).getRankedData();
         
-        if (!results || results.length === 0) {
+        if (results.length === 0) {
           return {
             success: false,
             message: `No anime found matching "${query}"`,
@@ -30,22 +565,22 @@ export const tools = {
           };
         }
 
-        const limitedResults = limit ? results.slice(0, limit) : results;
+        const grouped = await collapseFranchises(animeData, results, groupFranchises);
+        const limitedResults = limit ? grouped.results.slice(0, limit) : grouped.results;
+        const page = createResultPage(limitedResults.map(anime => ({
+            ...toAnimeRow(anime),
+            relevance: anime._relevance,
+            otherFranchiseEntries: grouped.others.get(anime)?.map(other => other.Title)
+          })), pageSize, { fields, maxTokens });
+        
         return {
           success: true,
-          message: `Found ${results.length} anime matching "${query}"`,
-          results: limitedResults.map(anime => ({
-            title: anime.Title,
-            englishTitle: anime.English,
-            score: anime.Score,
-            episodes: anime.Episodes,
-            type: anime.Type,
-            status: anime.Status,
-            genres: anime.Genres,
-            description: anime.Description?.substring(0, 200) + (anime.Description?.length > 200 ? '...' : ''),
-            year: anime.Aired?.match(/\d{4}/)?.[0] || 'Unknown'
-          })),
-          totalCount: results.length
+          message: `Found ${grouped.results.length} anime matching "${query}"` +
+            (page.nextCursor ? ` (showing the first ${page.results.length})` : ''),
+          results: page.results,
+          totalCount: grouped.results.length,
+          nextCursor: page.nextCursor,
+          budget: page.budget
         };
       } catch (error) {
         return {
@@ -58,103 +593,158 @@ export const tools = {
     },
   }),
 
-  filterAnime: tool({
-    description: "Filter anime by various criteria including genre, score, episodes, type, and more",
+  semanticSearchAnime: tool({
+    description: "Find anime matching a mood, theme or plot description (e.g., 'melancholic space travel with found family'). Fuses description similarity with keyword relevance; optional criteria narrow the candidates",
     inputSchema: z.object({
-      // Text search
-      searchQuery: z.string().optional().describe("Text to search for in titles and descriptions"),
-      
-      // Numeric filters
-      minScore: z.number().optional().describe("Minimum score (0-10)"),
-      maxScore: z.number().optional().describe("Maximum score (0-10)"),
-      minEpisodes: z.number().optional().describe("Minimum number of episodes"),
-      maxEpisodes: z.number().optional().describe("Maximum number of episodes"),
-      minRank: z.number().optional().describe("Minimum rank"),
-      maxRank: z.number().optional().describe("Maximum rank"),
-      
-      // Categorical filters
-      genres: z.array(z.string()).optional().describe("Genres to filter by (e.g., ['Action', 'Drama'])"),
-      types: z.array(z.string()).optional().describe("Anime types (e.g., ['TV', 'Movie', 'OVA'])"),
-      statuses: z.array(z.string()).optional().describe("Status (e.g., ['Finished Airing', 'Currently Airing'])"),
-      studios: z.array(z.string()).optional().describe("Animation studios"),
-      demographics: z.array(z.string()).optional().describe("Target demographics (e.g., ['Shounen', 'Seinen'])"),
-      sources: z.array(z.string()).optional().describe("Source material (e.g., ['Manga', 'Light novel'])"),
-      ratings: z.array(z.string()).optional().describe("Content ratings (e.g., ['PG-13', 'R'])"),
-      
-      // Date filters
-      startYear: z.string().optional().describe("Earliest year to include (YYYY format)"),
-      endYear: z.string().optional().describe("Latest year to include (YYYY format)"),
-      
-  // Sorting and pagination
-  sortBy: z.enum(['Score', 'Popularity', 'Rank', 'Episodes', 'Title', 'Aired']).optional().describe("Field to sort by"),
-      sortDirection: z.enum(['asc', 'desc']).optional().describe("Sort direction"),
-      limit: z.number().optional().describe("Maximum number of results to return (default: all results)"),
-      offset: z.number().optional().describe("Number of results to skip"),
+      query: z.string().describe("Natural-language description of what the user wants to watch"),
+      limit: z.number().optional().describe("Maximum number of results to return (default: 10)"),
+      ...filterGroupSchema.omit({ searchQuery: true }).shape,
     }),
-    execute: async (params) => {
+    execute: async ({ query, limit = 10, ...criteria }) => {
       try {
         const animeData = await loadAnimeData();
         
-        // Build the filter object
-        const filters: AnimeFilters = {};
+        // Restrict candidates only when criteria were given
+        const filters = toAnimeFilters(criteria);
+        const within = await filterCandidates(filters);
         
-        if (params.searchQuery) {
-          filters.search = { query: params.searchQuery };
-        }
+        const matches = await semanticSearch(animeData, query, { limit, within });
         
-        if (params.minScore !== undefined || params.maxScore !== undefined) {
-          filters.score = {
-            min: params.minScore,
-            max: params.maxScore
+        if (matches.length === 0) {
+          return {
+            success: false,
+            message: `No anime found matching "${query}"`,
+            results: []
           };
         }
         
-        if (params.minEpisodes !== undefined || params.maxEpisodes !== undefined) {
-          filters.episodes = {
-            min: params.minEpisodes,
-            max: params.maxEpisodes
-          };
-        }
+        return {
+          success: true,
+          message: `Found ${matches.length} anime matching "${query}"`,
+          results: matches.map(({ anime, score, similarity, vectorRank, lexicalRank }) => ({
+            ...toAnimeRow(anime),
+            relevance: Math.round(score * 10000) / 10000,
+            similarity,
+            vectorRank,
+            keywordRank: lexicalRank
+          })),
+          totalCount: matches.length
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to run semantic search",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  findSimilarAnime: tool({
+    description: "Find anime similar to a seed title ('more like this'), scored on genre overlap, studio, source material, era and synopsis similarity, with a breakdown of why each title matched. Optional criteria narrow the candidates",
+    inputSchema: z.object({
+      title: z.string().describe("Title of the anime to find similar titles for"),
+      limit: z.number().optional().describe("Maximum number of results to return (default: 10)"),
+      ...filterGroupSchema.omit({ searchQuery: true }).shape,
+    }),
+    execute: async ({ title, limit = 10, ...criteria }) => {
+      try {
+        const animeData = await loadAnimeData();
+        const seed = findAnimeByTitle(animeData, title);
         
-        if (params.minRank !== undefined || params.maxRank !== undefined) {
-          filters.rank = {
-            min: params.minRank,
-            max: params.maxRank
+        if (!seed) {
+          return {
+            success: false,
+            message: `No anime found with title "${title}"`,
+            seed: null,
+            results: []
           };
         }
         
-        if (params.genres && params.genres.length > 0) {
-          filters.genres = params.genres;
-        }
-        
-        if (params.types && params.types.length > 0) {
-          filters.type = params.types;
-        }
-        
-        if (params.statuses && params.statuses.length > 0) {
-          filters.status = params.statuses;
-        }
-        
-        if (params.studios && params.studios.length > 0) {
-          filters.studios = params.studios;
-        }
-        
-        if (params.demographics && params.demographics.length > 0) {
-          filters.demographic = params.demographics;
-        }
+        // Restrict candidates only when criteria were given
+        const filters = toAnimeFilters(criteria);
+        const within = await filterCandidates(filters);
         
-        if (params.sources && params.sources.length > 0) {
-          filters.source = params.sources;
-        }
+        const similar = await findSimilarAnime(animeData, seed, { limit, within });
         
-        if (params.ratings && params.ratings.length > 0) {
-          filters.rating = params.ratings;
-        }
+        return {
+          success: similar.length > 0,
+          message: similar.length > 0
+            ? `Found ${similar.length} anime similar to ${seed.Title}`
+            : `No anime similar to ${seed.Title} matched the criteria`,
+          seed: {
+            title: seed.Title,
+            englishTitle: seed.English,
+            genres: seed.Genres,
+            studios: seed.Studios,
+            source: seed.Source,
+            year: seed.airedFrom?.slice(0, 4) ?? 'Unknown'
+          },
+          results: similar.map(({ anime, similarity, breakdown, reasons }) => ({
+            malId: anime.MAL_ID,
+            title: anime.Title,
+            englishTitle: anime.English,
+            score: anime.Score,
+            episodes: anime.Episodes,
+            type: anime.Type,
+            genres: anime.Genres,
+            themes: anime.Themes,
+            studios: anime.Studios,
+            source: anime.Source,
+            year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+            imageUrl: anime.imageUrl,
+            trailerUrl: anime.trailerUrl,
+            similarity,
+            breakdown,
+            reasons
+          })),
+          totalCount: similar.length
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to find similar anime",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  filterAnime: tool({
+    description: "Filter anime by various criteria including genre, score, episodes, type, and more. Supports and/or/not groups for boolean queries. Prefer queryAnime, which also supports exclusions",
+    inputSchema: z.object({
+      ...filterCriteriaShape,
+      ...filterGroupsShape,
+      
+      // Sorting and pagination
+      sortBy: z.enum(['Score', 'Popularity', 'Rank', 'Favorites', 'Episodes', 'Title', 'Aired', 'completionRate', 'dropRate', 'scoreStdDev', '_relevance']).optional().describe("Field to sort by ('_relevance' ranks searchQuery matches; used by default when searching)"),
+      sortDirection: z.enum(['asc', 'desc']).optional().describe("Sort direction"),
+      limit: z.number().optional().describe("Maximum number of results to return (default: all results)"),
+      offset: z.number().optional().describe("Number of results to skip"),
+      pageSize: pageSizeSchema,
+      groupFranchises: groupFranchisesSchema,
+      ...outputBudgetShape,
+      
+      // Facets
+      facets: z.array(z.enum(['genres', 'themes', 'type', 'status', 'demographic', 'source', 'rating', 'studios', 'artists', 'year'])).optional().describe("Return counts of the most common values of these fields across all matches (before limit/offset), e.g. to suggest ways to narrow the results"),
+      facetLimit: z.number().optional().describe("Maximum values per facet (default: 10)"),
+      yearBucketSize: z.number().optional().describe("Years per 'year' facet bucket: 10 for decades (default), 1 for single years"),
+    }),
+    execute: async (params) => {
+      try {
+        // Build the filter object
+        const filters: AnimeFilters = {
+          ...toAnimeFilters(params),
+          ...toFilterGroups(params),
+        };
         
-        if (params.startYear || params.endYear) {
-          filters.aired = {
-            start: params.startYear,
-            end: params.endYear
+        if (params.facets && params.facets.length > 0) {
+          filters.facets = {
+            fields: params.facets,
+            limit: params.facetLimit,
+            yearBucketSize: params.yearBucketSize
           };
         }
         
@@ -168,47 +758,13 @@ export const tools = {
         if (params.limit !== undefined) {
           filters.limit = params.limit;
         }
-        // No default limit - return all results unless explicitly limited
+        // No default limit - every match is cached and returned a page at a time
         
         if (params.offset !== undefined) {
           filters.offset = params.offset;
         }
         
-        const results = filterAnime(animeData, filters);
-        
-        if (!results || results.length === 0) {
-          return {
-            success: false,
-            message: "No anime found matching the specified criteria",
-            results: [],
-            totalCount: 0
-          };
-        }
-        
-        return {
-          success: true,
-          message: `Found ${results.length} anime matching the criteria`,
-          results: results.map(anime => ({
-            title: anime.Title,
-            englishTitle: anime.English,
-            score: anime.Score,
-            rank: anime.Rank,
-            popularity: anime.Popularity,
-            episodes: anime.Episodes,
-            type: anime.Type,
-            status: anime.Status,
-            genres: anime.Genres,
-            studios: anime.Studios,
-            demographic: anime.Demographic,
-            rating: anime.Rating,
-            source: anime.Source,
-            description: anime.Description?.substring(0, 200) + (anime.Description?.length > 200 ? '...' : ''),
-            year: anime.Aired?.match(/\d{4}/)?.[0] || 'Unknown',
-            aired: anime.Aired
-          })),
-          totalCount: results.length,
-          appliedFilters: Object.keys(filters).filter(key => key !== 'limit' && key !== 'offset')
-        };
+        return await runAnimeQuery(filters, params);
       } catch (error) {
         return {
           success: false,
@@ -221,10 +777,11 @@ export const tools = {
   }),
 
   filterAnimeWithExclusions: tool({
-    description: "Advanced filter that allows including specific criteria while explicitly excluding others (e.g., include comedy but exclude action)",
+    description: "Advanced filter that allows including specific criteria while explicitly excluding others (e.g., include comedy but exclude action). Prefer queryAnime, which takes exclusions on every field",
     inputSchema: z.object({
       // Include filters (what you want)
       includeGenres: z.array(z.string()).optional().describe("Genres to include (e.g., ['Comedy', 'Slice of Life'])"),
+      includeThemes: z.array(z.string()).optional().describe("Themes to include (e.g., ['Isekai', 'Time Travel'])"),
       includeTypes: z.array(z.string()).optional().describe("Types to include (e.g., ['TV', 'Movie'])"),
       includeStatuses: z.array(z.string()).optional().describe("Statuses to include"),
       includeStudios: z.array(z.string()).optional().describe("Studios to include"),
@@ -234,6 +791,7 @@ export const tools = {
       
       // Exclude filters (what you don't want)
       excludeGenres: z.array(z.string()).optional().describe("Genres to exclude (e.g., ['Mystery', 'Action'])"),
+      excludeThemes: z.array(z.string()).optional().describe("Themes to exclude (e.g., ['Harem'])"),
       excludeTypes: z.array(z.string()).optional().describe("Types to exclude"),
       excludeStatuses: z.array(z.string()).optional().describe("Statuses to exclude"),
       excludeStudios: z.array(z.string()).optional().describe("Studios to exclude"),
@@ -254,373 +812,143 @@ export const tools = {
       startYear: z.string().optional().describe("Earliest year to include (YYYY format)"),
       endYear: z.string().optional().describe("Latest year to include (YYYY format)"),
       
-  // Sorting and pagination
-  sortBy: z.enum(['Score', 'Popularity', 'Rank', 'Episodes', 'Title', 'Aired']).optional().describe("Field to sort by"),
+      // Sorting and pagination
+      sortBy: z.enum(['Score', 'Popularity', 'Rank', 'Favorites', 'Episodes', 'Title', 'Aired']).optional().describe("Field to sort by"),
       sortDirection: z.enum(['asc', 'desc']).optional().describe("Sort direction"),
       limit: z.number().optional().describe("Maximum number of results to return"),
+      pageSize: pageSizeSchema,
+      groupFranchises: groupFranchisesSchema,
+      ...outputBudgetShape,
       
       // Logic options
+      matchMode: matchModeSchema,
       includeAllGenres: z.boolean().optional().describe("If true, anime must have ALL included genres; if false, anime needs ANY included genre (default: false)"),
+      
+      // Boolean filter groups
+      ...filterGroupsShape,
     }),
     execute: async (params) => {
       try {
-        const animeData = await loadAnimeData();
-        
-        let filteredData = [...animeData];
+        const matchMode = params.matchMode ?? 'exact';
+        const select = (values?: string[], exclude?: string[], matchAny = true): MultiSelectFilter | undefined =>
+          values?.length || exclude?.length ? { values, exclude, matchAny, matchMode } : undefined;
         
-        // Helper function to check if any value in a comma-separated field matches the criteria
-        const hasAnyValue = (fieldValue: string, values: string[]): boolean => {
-          if (!fieldValue || !values.length) return false;
-          const fieldItems = fieldValue.split(',').map(item => item.trim().toLowerCase());
-          return values.some(value => 
-            fieldItems.some(item => item.includes(value.toLowerCase()))
-          );
+        const filters: AnimeFilters = {
+          search: params.searchQuery ? { query: params.searchQuery } : undefined,
+          genres: select(params.includeGenres, params.excludeGenres, !params.includeAllGenres),
+          themes: select(params.includeThemes, params.excludeThemes),
+          type: select(params.includeTypes, params.excludeTypes),
+          status: select(params.includeStatuses, params.excludeStatuses),
+          studios: select(params.includeStudios, params.excludeStudios),
+          demographic: select(params.includeDemographics, params.excludeDemographics),
+          source: select(params.includeSources, params.excludeSources),
+          rating: select(params.includeRatings, params.excludeRatings),
+          score: params.minScore !== undefined || params.maxScore !== undefined
+            ? { min: params.minScore, max: params.maxScore }
+            : undefined,
+          episodes: params.minEpisodes !== undefined || params.maxEpisodes !== undefined
+            ? { min: params.minEpisodes, max: params.maxEpisodes }
+            : undefined,
+          aired: params.startYear || params.endYear ? { start: params.startYear, end: params.endYear } : undefined,
+          sort: params.sortBy ? [{ field: params.sortBy, direction: params.sortDirection || 'desc' }] : undefined,
+          limit: params.limit,
+          ...toFilterGroups(params),
         };
         
-        const hasAllValues = (fieldValue: string, values: string[]): boolean => {
-          if (!fieldValue || !values.length) return false;
-          const fieldItems = fieldValue.split(',').map(item => item.trim().toLowerCase());
-          return values.every(value => 
-            fieldItems.some(item => item.includes(value.toLowerCase()))
-          );
+        return await runAnimeQuery(
+          Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined)),
+          params
+        );
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to filter anime with inclusion/exclusion criteria",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
         };
+      }
+    },
+  }),
+
+  getMoreResults: tool({
+    description: "Fetch the next page of a previous queryAnime, searchAnime, filterAnime, filterAnimeWithExclusions, findAnimeByVoiceActor, findAnimeByStaff, searchThemeSongs, getAnimeReviews or getEpisodes result using its nextCursor, without re-running the query",
+    inputSchema: z.object({
+      cursor: z.string().describe("The nextCursor value returned by the previous tool call"),
+      pageSize: pageSizeSchema,
+      ...outputBudgetShape,
+    }),
+    execute: async ({ cursor, pageSize, fields, maxTokens }) => {
+      const page = getResultPage(cursor, pageSize, { fields, maxTokens });
+      
+      if (!page) {
+        return {
+          success: false,
+          message: "This cursor is invalid or has expired. Run the original query again",
+          results: [],
+          totalCount: 0,
+          nextCursor: null
+        };
+      }
+      
+      return {
+        success: true,
+        message: `Showing results ${page.offset + 1}-${page.offset + page.results.length} of ${page.totalCount}`,
+        results: page.results,
+        totalCount: page.totalCount,
+        nextCursor: page.nextCursor,
+        budget: page.budget
+      };
+    },
+  }),
+
+  getAnimeOptions: tool({
+    description: "Get unique values for anime fields to populate dropdown filters and options",
+    inputSchema: z.object({
+      field: z.enum(['Genres', 'Themes', 'Studios', 'Producers', 'Type', 'Status', 'Source', 'Rating', 'Demographic', 'Premiered'])
+        .describe("The field to get unique values for"),
+    }),
+    execute: async ({ field }) => {
+      try {
+        const animeData = await loadAnimeData();
+        const uniqueValues = getUniqueValues(animeData, field);
         
-        // Apply text search first
-        if (params.searchQuery) {
-          const query = params.searchQuery.toLowerCase();
-          filteredData = filteredData.filter(anime => 
-            anime.Title?.toLowerCase().includes(query) ||
-            anime.English?.toLowerCase().includes(query) ||
-            anime.Japanese?.toLowerCase().includes(query) ||
-            anime.Description?.toLowerCase().includes(query) ||
-            anime.Synonyms?.toLowerCase().includes(query)
-          );
-        }
-        
-        // Apply include filters
-        if (params.includeGenres && params.includeGenres.length > 0) {
-          if (params.includeAllGenres) {
-            filteredData = filteredData.filter(anime => 
-              hasAllValues(anime.Genres, params.includeGenres!)
-            );
-          } else {
-            filteredData = filteredData.filter(anime => 
-              hasAnyValue(anime.Genres, params.includeGenres!)
-            );
-          }
-        }
+        return {
+          success: true,
+          field,
+          values: uniqueValues,
+          count: uniqueValues.length,
+          message: `Found ${uniqueValues.length} unique values for ${field}`
+        };
+      } catch (error) {
+        return {
+          success: false,
+          field,
+          values: [],
+          error: error instanceof Error ? error.message : String(error),
+          message: `Failed to get unique values for ${field}`
+        };
+      }
+    },
+  }),
+
+  getAnimeStatistics: tool({
+    description: "Get statistical information for numeric anime fields like score, episodes, rank, etc.",
+    inputSchema: z.object({
+      field: z.enum(['Score', 'Episodes', 'Rank', 'Popularity', 'Members', 'Favorites', 'Score_Count', 'minutesPerEpisode', 'totalRuntimeMinutes', 'completionRate', 'dropRate', 'scoreStdDev', 'polarization'])
+        .describe("The numeric field to get statistics for"),
+    }),
+    execute: async ({ field }) => {
+      try {
+        const animeData = await loadAnimeData();
+        const stats = getFieldStatistics(animeData, field);
         
-        if (params.includeTypes && params.includeTypes.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            params.includeTypes!.some(type => 
-              anime.Type?.toLowerCase().includes(type.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.includeStatuses && params.includeStatuses.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            params.includeStatuses!.some(status => 
-              anime.Status?.toLowerCase().includes(status.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.includeStudios && params.includeStudios.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            hasAnyValue(anime.Studios, params.includeStudios!)
-          );
-        }
-        
-        if (params.includeDemographics && params.includeDemographics.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            params.includeDemographics!.some(demo => 
-              anime.Demographic?.toLowerCase().includes(demo.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.includeSources && params.includeSources.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            params.includeSources!.some(source => 
-              anime.Source?.toLowerCase().includes(source.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.includeRatings && params.includeRatings.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            params.includeRatings!.some(rating => 
-              anime.Rating?.toLowerCase().includes(rating.toLowerCase())
-            )
-          );
-        }
-        
-        // Apply exclude filters
-        if (params.excludeGenres && params.excludeGenres.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !hasAnyValue(anime.Genres, params.excludeGenres!)
-          );
-        }
-        
-        if (params.excludeTypes && params.excludeTypes.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !params.excludeTypes!.some(type => 
-              anime.Type?.toLowerCase().includes(type.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.excludeStatuses && params.excludeStatuses.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !params.excludeStatuses!.some(status => 
-              anime.Status?.toLowerCase().includes(status.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.excludeStudios && params.excludeStudios.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !hasAnyValue(anime.Studios, params.excludeStudios!)
-          );
-        }
-        
-        if (params.excludeDemographics && params.excludeDemographics.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !params.excludeDemographics!.some(demo => 
-              anime.Demographic?.toLowerCase().includes(demo.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.excludeSources && params.excludeSources.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !params.excludeSources!.some(source => 
-              anime.Source?.toLowerCase().includes(source.toLowerCase())
-            )
-          );
-        }
-        
-        if (params.excludeRatings && params.excludeRatings.length > 0) {
-          filteredData = filteredData.filter(anime => 
-            !params.excludeRatings!.some(rating => 
-              anime.Rating?.toLowerCase().includes(rating.toLowerCase())
-            )
-          );
-        }
-        
-        // Apply numeric filters
-        if (params.minScore !== undefined) {
-          filteredData = filteredData.filter(anime => 
-            anime.Score !== null && anime.Score >= params.minScore!
-          );
-        }
-        
-        if (params.maxScore !== undefined) {
-          filteredData = filteredData.filter(anime => 
-            anime.Score !== null && anime.Score <= params.maxScore!
-          );
-        }
-        
-        if (params.minEpisodes !== undefined) {
-          filteredData = filteredData.filter(anime => 
-            anime.Episodes !== null && anime.Episodes >= params.minEpisodes!
-          );
-        }
-        
-        if (params.maxEpisodes !== undefined) {
-          filteredData = filteredData.filter(anime => 
-            anime.Episodes !== null && anime.Episodes <= params.maxEpisodes!
-          );
-        }
-        
-        // Apply date filters
-        if (params.startYear || params.endYear) {
-          filteredData = filteredData.filter(anime => {
-            if (!anime.Aired) return false;
-            const yearMatch = anime.Aired.match(/\d{4}/);
-            if (!yearMatch) return false;
-            
-            const year = parseInt(yearMatch[0]);
-            if (params.startYear && year < parseInt(params.startYear)) return false;
-            if (params.endYear && year > parseInt(params.endYear)) return false;
-            
-            return true;
-          });
-        }
-        
-        // Helper to parse `Aired` into a comparable timestamp (ms since epoch)
-        const parseAiredToTimestamp = (aired?: string | null): number | null => {
-          if (!aired) return null;
-          // Common formats:
-          // "Apr 3, 2016 to Jun 26, 2016"
-          // "2016" or "Apr, 2016"
-          // "Jan 10, 2020"
-          // We'll try to extract the earliest year/month/day available.
-          try {
-            // If there's a range like "...to...", take the start side as the airing time
-            const parts = aired.split(/to/i).map(p => p.trim()).filter(Boolean);
-            const candidate = parts[0];
-
-            // Try parsing with Date.parse for full dates
-            const parsed = Date.parse(candidate);
-            if (!isNaN(parsed)) return parsed;
-
-            // If candidate is just a year (4 digits), create a date at Jan 1 of that year
-            const yearMatch = candidate.match(/(\d{4})/);
-            if (yearMatch) {
-              const y = parseInt(yearMatch[1], 10);
-              return new Date(y, 0, 1).getTime();
-            }
-
-            return null;
-          } catch (e) {
-            return null;
-          }
-        };
-
-        // Apply sorting
-        if (params.sortBy) {
-          filteredData.sort((a, b) => {
-            // Special handling for Aired/time-based sorting
-            if (params.sortBy === 'Aired') {
-              const aTs = parseAiredToTimestamp(a.Aired);
-              const bTs = parseAiredToTimestamp(b.Aired);
-
-              if (aTs === null && bTs === null) return 0;
-              if (aTs === null) return params.sortDirection === 'asc' ? 1 : -1;
-              if (bTs === null) return params.sortDirection === 'asc' ? -1 : 1;
-
-              const cmp = aTs - bTs;
-              return params.sortDirection === 'asc' ? cmp : -cmp;
-            }
-
-            const aVal = a[params.sortBy!] as string | number | null;
-            const bVal = b[params.sortBy!] as string | number | null;
-
-            if (aVal === null && bVal === null) return 0;
-            if (aVal === null) return params.sortDirection === 'asc' ? 1 : -1;
-            if (bVal === null) return params.sortDirection === 'asc' ? -1 : 1;
-
-            let comparison = 0;
-            if (typeof aVal === 'number' && typeof bVal === 'number') {
-              comparison = aVal - bVal;
-            } else {
-              comparison = String(aVal).localeCompare(String(bVal));
-            }
-
-            return params.sortDirection === 'asc' ? comparison : -comparison;
-          });
-        }
-        
-        // Apply limit
-        if (params.limit) {
-          filteredData = filteredData.slice(0, params.limit);
-        }
-        
-        if (filteredData.length === 0) {
-          return {
-            success: false,
-            message: "No anime found matching the specified inclusion/exclusion criteria",
-            results: [],
-            totalCount: 0
-          };
-        }
-        
-        return {
-          success: true,
-          message: `Found ${filteredData.length} anime matching the inclusion/exclusion criteria`,
-          results: filteredData.map(anime => ({
-            title: anime.Title,
-            englishTitle: anime.English,
-            score: anime.Score,
-            rank: anime.Rank,
-            popularity: anime.Popularity,
-            episodes: anime.Episodes,
-            type: anime.Type,
-            status: anime.Status,
-            genres: anime.Genres,
-            studios: anime.Studios,
-            demographic: anime.Demographic,
-            rating: anime.Rating,
-            source: anime.Source,
-            description: anime.Description?.substring(0, 200) + (anime.Description?.length > 200 ? '...' : ''),
-            year: anime.Aired?.match(/\d{4}/)?.[0] || 'Unknown',
-            aired: anime.Aired
-          })),
-          totalCount: filteredData.length,
-          appliedFilters: {
-            included: Object.keys(params).filter(key => 
-              key.startsWith('include') && params[key as keyof typeof params] && 
-              Array.isArray(params[key as keyof typeof params]) && 
-              (params[key as keyof typeof params] as unknown[]).length > 0
-            ),
-            excluded: Object.keys(params).filter(key => 
-              key.startsWith('exclude') && params[key as keyof typeof params] && 
-              Array.isArray(params[key as keyof typeof params]) && 
-              (params[key as keyof typeof params] as unknown[]).length > 0
-            )
-          }
-        };
-      } catch (error) {
-        return {
-          success: false,
-          message: "Failed to filter anime with inclusion/exclusion criteria",
-          error: error instanceof Error ? error.message : String(error),
-          results: []
-        };
-      }
-    },
-  }),
-
-  getAnimeOptions: tool({
-    description: "Get unique values for anime fields to populate dropdown filters and options",
-    inputSchema: z.object({
-      field: z.enum(['Genres', 'Studios', 'Producers', 'Type', 'Status', 'Source', 'Rating', 'Demographic', 'Premiered'])
-        .describe("The field to get unique values for"),
-    }),
-    execute: async ({ field }) => {
-      try {
-        const animeData = await loadAnimeData();
-        const uniqueValues = getUniqueValues(animeData, field);
-        
-        return {
-          success: true,
-          field,
-          values: uniqueValues,
-          count: uniqueValues.length,
-          message: `Found ${uniqueValues.length} unique values for ${field}`
-        };
-      } catch (error) {
-        return {
-          success: false,
-          field,
-          values: [],
-          error: error instanceof Error ? error.message : String(error),
-          message: `Failed to get unique values for ${field}`
-        };
-      }
-    },
-  }),
-
-  getAnimeStatistics: tool({
-    description: "Get statistical information for numeric anime fields like score, episodes, rank, etc.",
-    inputSchema: z.object({
-      field: z.enum(['Score', 'Episodes', 'Rank', 'Popularity', 'Members'])
-        .describe("The numeric field to get statistics for"),
-    }),
-    execute: async ({ field }) => {
-      try {
-        const animeData = await loadAnimeData();
-        const stats = getFieldStatistics(animeData, field);
-        
-        if (!stats) {
-          return {
-            success: false,
-            field,
-            message: `No valid data found for field ${field}`,
-            statistics: null
-          };
+        if (!stats) {
+          return {
+            success: false,
+            field,
+            message: `No valid data found for field ${field}`,
+            statistics: null
+          };
         }
         
         return {
@@ -687,6 +1015,7 @@ export const tools = {
               )
               .slice(0, 5)
               .map(anime => ({
+                malId: anime.MAL_ID,
                 title: anime.Title,
                 englishTitle: anime.English,
                 japaneseTitle: anime.Japanese
@@ -698,6 +1027,7 @@ export const tools = {
           success: true,
           message: `Found exact match: ${foundAnime.Title}`,
           anime: {
+            malId: foundAnime.MAL_ID,
             title: foundAnime.Title,
             englishTitle: foundAnime.English,
             japaneseTitle: foundAnime.Japanese,
@@ -711,16 +1041,31 @@ export const tools = {
             type: foundAnime.Type,
             status: foundAnime.Status,
             aired: foundAnime.Aired,
+            airedFrom: foundAnime.airedFrom,
+            airedTo: foundAnime.airedTo,
             premiered: foundAnime.Premiered,
+            season: foundAnime.season,
+            seasonYear: foundAnime.seasonYear,
             broadcast: foundAnime.Broadcast,
+            broadcastDay: foundAnime.broadcastDay,
+            broadcastTimeJst: foundAnime.broadcastTime,
             producers: foundAnime.Producers,
             licensors: foundAnime.Licensors,
             studios: foundAnime.Studios,
             source: foundAnime.Source,
             genres: foundAnime.Genres,
+            themes: foundAnime.Themes,
             demographic: foundAnime.Demographic,
             duration: foundAnime.Duration,
-            rating: foundAnime.Rating
+            minutesPerEpisode: foundAnime.minutesPerEpisode,
+            totalRuntimeMinutes: foundAnime.totalRuntimeMinutes,
+            rating: foundAnime.Rating,
+            scoreCount: foundAnime.Score_Count,
+            favorites: foundAnime.Favorites,
+            background: foundAnime.Background,
+            imageUrl: foundAnime.imageUrl,
+            trailerUrl: foundAnime.trailerUrl,
+            externalLinks: foundAnime.externalLinks
           }
         };
       } catch (error) {
@@ -735,29 +1080,52 @@ export const tools = {
   }),
 
   getAnimeById: tool({
-    description: "Get detailed information about a specific anime by searching for its title or ID",
+    description: "Get detailed information about a specific anime by searching for its title or MyAnimeList ID",
     inputSchema: z.object({
-      title: z.string().describe("The exact or partial title of the anime to find"),
+      title: z.string().optional().describe("The exact or partial title of the anime to find"),
+      malId: z.number().optional().describe("The MyAnimeList ID of the anime (takes precedence over title)"),
       detailed: z.boolean().optional().describe("Whether to return detailed information (default: true)"),
     }),
-    execute: async ({ title, detailed = true }) => {
+    execute: async ({ title = '', malId, detailed = true }) => {
       try {
         const animeData = await loadAnimeData();
         
-        // First try exact title match (case insensitive)
-        let anime = animeData.find(a => 
-          a.Title.toLowerCase() === title.toLowerCase() ||
-          a.English?.toLowerCase() === title.toLowerCase() ||
-          a.Japanese?.toLowerCase() === title.toLowerCase()
-        );
+        if (malId === undefined && !title.trim()) {
+          return {
+            success: false,
+            message: "Provide a title or a MyAnimeList ID",
+            anime: null
+          };
+        }
+        
+        // Look up by MAL id when given, otherwise try exact title match (case insensitive)
+        let anime = malId !== undefined
+          ? animeData.find(a => a.MAL_ID === malId)
+          : animeData.find(a => 
+              a.Title.toLowerCase() === title.toLowerCase() ||
+              a.English?.toLowerCase() === title.toLowerCase() ||
+              a.Japanese?.toLowerCase() === title.toLowerCase()
+            );
+        
+        if (!anime && malId !== undefined) {
+          return {
+            success: false,
+            message: `No anime found with MyAnimeList ID ${malId}`,
+            anime: null
+          };
+        }
         
-        // If no exact match, try partial match
+        // If no exact match, try partial match, preferring the most popular title
+        let otherMatches: Anime[] = [];
         if (!anime) {
-          anime = animeData.find(a => 
-            a.Title.toLowerCase().includes(title.toLowerCase()) ||
-            a.English?.toLowerCase().includes(title.toLowerCase()) ||
-            a.Japanese?.toLowerCase().includes(title.toLowerCase())
-          );
+          const partialMatches = animeData
+            .filter(a => 
+              a.Title.toLowerCase().includes(title.toLowerCase()) ||
+              a.English?.toLowerCase().includes(title.toLowerCase()) ||
+              a.Japanese?.toLowerCase().includes(title.toLowerCase())
+            )
+            .sort((a, b) => (b.Members ?? 0) - (a.Members ?? 0));
+          [anime, ...otherMatches] = partialMatches;
         }
         
         if (!anime) {
@@ -769,6 +1137,7 @@ export const tools = {
         }
         
         const result = detailed ? {
+          malId: anime.MAL_ID,
           title: anime.Title,
           englishTitle: anime.English,
           japaneseTitle: anime.Japanese,
@@ -782,17 +1151,37 @@ export const tools = {
           type: anime.Type,
           status: anime.Status,
           aired: anime.Aired,
+          airedFrom: anime.airedFrom,
+          airedTo: anime.airedTo,
           premiered: anime.Premiered,
+          season: anime.season,
+          seasonYear: anime.seasonYear,
           broadcast: anime.Broadcast,
+          broadcastDay: anime.broadcastDay,
+          broadcastTimeJst: anime.broadcastTime,
           producers: anime.Producers,
           licensors: anime.Licensors,
           studios: anime.Studios,
           source: anime.Source,
           genres: anime.Genres,
+          themes: anime.Themes,
           demographic: anime.Demographic,
           duration: anime.Duration,
-          rating: anime.Rating
+          minutesPerEpisode: anime.minutesPerEpisode,
+          totalRuntimeMinutes: anime.totalRuntimeMinutes,
+          rating: anime.Rating,
+          scoreCount: anime.Score_Count,
+          favorites: anime.Favorites,
+          background: anime.Background,
+          imageUrl: anime.imageUrl,
+          trailerUrl: anime.trailerUrl,
+          externalLinks: anime.externalLinks,
+          completionRate: anime.completionRate,
+          dropRate: anime.dropRate,
+          scoreStdDev: anime.scoreStdDev,
+          themeSongs: anime.themeSongs.map(toThemeSongRow)
         } : {
+          malId: anime.MAL_ID,
           title: anime.Title,
           englishTitle: anime.English,
           score: anime.Score,
@@ -800,13 +1189,27 @@ export const tools = {
           type: anime.Type,
           status: anime.Status,
           genres: anime.Genres,
-          year: anime.Aired?.match(/\d{4}/)?.[0] || 'Unknown'
+          themes: anime.Themes,
+          year: anime.airedFrom?.slice(0, 4) ?? 'Unknown'
         };
         
+        const relations = await loadRelations();
+        const franchise = relations ? getFranchise(animeData, relations, anime) : null;
+        
         return {
           success: true,
           message: `Found anime: ${anime.Title}`,
-          anime: result
+          anime: result,
+          ...(franchise && {
+            franchise: {
+              name: franchise.name,
+              entryCount: franchise.entries.length,
+              mainEntryCount: franchise.entries.filter(entry => !entry.optional).length
+            }
+          }),
+          ...(otherMatches.length > 0 && {
+            otherMatches: otherMatches.slice(0, 5).map(other => ({ malId: other.MAL_ID, title: other.Title, type: other.Type }))
+          })
         };
       } catch (error) {
         return {
@@ -818,4 +1221,658 @@ export const tools = {
       }
     },
   }),
-};
+
+  searchCharacters: tool({
+    description: "Search anime characters by name (romaji or kanji), anime title or biography, e.g. 'Emilia', 'Levi Ackerman' or 'silver-haired half elf'. Returns each character's anime, role and voice actors",
+    inputSchema: z.object({
+      query: z.string().describe("Character name or description to search for"),
+      animeTitle: z.string().optional().describe("Only characters from anime whose title contains this text"),
+      role: z.enum(['Main', 'Supporting']).optional().describe("Only main or supporting characters"),
+      limit: z.number().optional().describe("Maximum number of characters to return (default: 10)"),
+    }),
+    execute: async ({ query, animeTitle, role, limit = 10 }) => {
+      try {
+        const characters = await loadCharacters();
+        if (!characters) {
+          return { success: false, message: MISSING_CHARACTERS_MESSAGE, results: [], totalCount: 0 };
+        }
+        
+        const matches = searchCharacters(characters, query, { animeTitle, role, limit });
+        
+        return {
+          success: matches.length > 0,
+          message: matches.length > 0
+            ? `Found ${matches.length} characters matching "${query}"`
+            : `No characters found matching "${query}"`,
+          results: matches.map(({ character, score }) => ({
+            malId: character.malId,
+            name: character.name,
+            nameKanji: character.nameKanji,
+            animeTitle: character.animeTitle,
+            role: character.role,
+            favorites: character.favorites,
+            about: character.about,
+            voiceActors: character.voiceActors,
+            imageUrl: character.imageUrl,
+            relevance: score
+          })),
+          totalCount: matches.length
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to search characters",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  getAnimeCast: tool({
+    description: "Get the characters (with their Japanese and English voice actors) and the staff credits of one anime",
+    inputSchema: z.object({
+      title: z.string().describe("Title of the anime"),
+      characterLimit: z.number().optional().describe("Maximum number of characters to return, main cast first (default: 20)"),
+      staffRole: z.string().optional().describe("Only staff whose role contains this text, e.g. 'Director' or 'Music'"),
+    }),
+    execute: async ({ title, characterLimit = 20, staffRole }) => {
+      try {
+        const [animeData, characters, staff] = await Promise.all([loadAnimeData(), loadCharacters(), loadStaff()]);
+        
+        if (!characters && !staff) {
+          return { success: false, message: `${MISSING_CHARACTERS_MESSAGE}. ${MISSING_STAFF_MESSAGE}`, anime: null };
+        }
+        
+        const anime = findAnimeByTitle(animeData, title);
+        if (!anime) {
+          return { success: false, message: `No anime found with title "${title}"`, anime: null };
+        }
+        
+        const cast = getAnimeCast(anime, characters ?? [], staff ?? []);
+        const credits = staffRole
+          ? cast.staff.filter(credit => credit.roles.some(role => role.toLowerCase().includes(staffRole.toLowerCase())))
+          : cast.staff;
+        
+        return {
+          success: cast.characters.length > 0 || credits.length > 0,
+          message: `Found ${cast.characters.length} characters and ${credits.length} staff credits for ${anime.Title}`,
+          anime: {
+            malId: anime.MAL_ID,
+            title: anime.Title,
+            englishTitle: anime.English
+          },
+          characters: cast.characters.slice(0, characterLimit).map(character => ({
+            name: character.name,
+            nameKanji: character.nameKanji,
+            role: character.role,
+            favorites: character.favorites,
+            voiceActors: character.voiceActors,
+            imageUrl: character.imageUrl
+          })),
+          staff: credits.map(credit => ({
+            name: credit.name,
+            roles: credit.roles
+          })),
+          totalCharacters: cast.characters.length,
+          ...(!characters && { note: MISSING_CHARACTERS_MESSAGE }),
+          ...(!staff && { note: MISSING_STAFF_MESSAGE })
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to retrieve the cast",
+          error: error instanceof Error ? error.message : String(error),
+          anime: null
+        };
+      }
+    },
+  }),
+
+  findAnimeByVoiceActor: tool({
+    description: "Find anime in which a voice actor (seiyuu or dub actor) voices a character, e.g. 'Kana Hanazawa'. Name order does not matter. Each result lists the characters they voice",
+    inputSchema: z.object({
+      name: z.string().describe("Voice actor name, in either name order"),
+      role: z.enum(['Main', 'Supporting']).optional().describe("Only anime where they voice a main or supporting character"),
+      language: z.string().optional().describe("Only this dub language, e.g. 'Japanese' or 'English'"),
+      pageSize: pageSizeSchema,
+      ...outputBudgetShape,
+    }),
+    execute: async ({ name, role, language, pageSize, fields, maxTokens }) => {
+      try {
+        const [animeData, characters] = await Promise.all([loadAnimeData(), loadCharacters()]);
+        if (!characters) {
+          return { success: false, message: MISSING_CHARACTERS_MESSAGE, results: [], totalCount: 0, nextCursor: null };
+        }
+        
+        const page = createResultPage(toCreditRows(findAnimeByVoiceActor(animeData, characters, name, { role, language })), pageSize, { fields, maxTokens });
+        
+        return {
+          success: page.totalCount > 0,
+          message: page.totalCount > 0
+            ? `Found ${page.totalCount} anime featuring ${name}`
+            : `No anime found featuring voice actor "${name}"`,
+          results: page.results,
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          budget: page.budget
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to search by voice actor",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  findAnimeByStaff: tool({
+    description: "Find anime a staff member worked on (director, composer, character designer, ...), e.g. 'Hiroyuki Sawano' or 'Makoto Shinkai'. Each result lists their roles on that anime",
+    inputSchema: z.object({
+      name: z.string().describe("Staff member name, in either name order"),
+      role: z.string().optional().describe("Only credits whose role contains this text, e.g. 'Director' or 'Music'"),
+      pageSize: pageSizeSchema,
+      ...outputBudgetShape,
+    }),
+    execute: async ({ name, role, pageSize, fields, maxTokens }) => {
+      try {
+        const [animeData, staff] = await Promise.all([loadAnimeData(), loadStaff()]);
+        if (!staff) {
+          return { success: false, message: MISSING_STAFF_MESSAGE, results: [], totalCount: 0, nextCursor: null };
+        }
+        
+        const page = createResultPage(toCreditRows(findAnimeByStaff(animeData, staff, name, { role })), pageSize, { fields, maxTokens });
+        
+        return {
+          success: page.totalCount > 0,
+          message: page.totalCount > 0
+            ? `Found ${page.totalCount} anime credited to ${name}`
+            : `No anime found credited to "${name}"${role ? ` as ${role}` : ''}`,
+          results: page.results,
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          budget: page.budget
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to search by staff member",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  searchThemeSongs: tool({
+    description: "Search opening and ending theme songs by artist or song title, e.g. 'anime with an OP by LiSA' or 'which show used the song Gurenge'. Each result lists the matching songs with their artists and episode ranges",
+    inputSchema: z.object({
+      artist: z.string().optional().describe("Performer name, e.g. 'LiSA' or 'Yoko Kanno'"),
+      song: z.string().optional().describe("Song title or part of it, in romaji or the original script"),
+      kind: z.enum(['opening', 'ending']).optional().describe("Only openings or only endings"),
+      ...filterGroupSchema.omit({ searchQuery: true }).shape,
+      pageSize: pageSizeSchema,
+      ...outputBudgetShape,
+    }),
+    execute: async ({ artist, song, kind, pageSize, fields, maxTokens, ...criteria }) => {
+      try {
+        if (!artist?.trim() && !song?.trim()) {
+          return { success: false, message: "Provide an artist or a song title", results: [], totalCount: 0 };
+        }
+
+        const animeData = await loadAnimeData();
+
+        // Restrict candidates only when criteria were given
+        const filters = toAnimeFilters(criteria);
+        const within = await filterCandidates(filters);
+
+        const matches = searchThemeSongs(animeData, { artist, song, kind, within });
+        const page = createResultPage(matches.map(({ anime, songs }) => ({
+          malId: anime.MAL_ID,
+          title: anime.Title,
+          englishTitle: anime.English,
+          score: anime.Score,
+          episodes: anime.Episodes,
+          type: anime.Type,
+          genres: anime.Genres,
+          year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+          imageUrl: anime.imageUrl,
+          trailerUrl: anime.trailerUrl,
+          themeSongs: songs.map(toThemeSongRow)
+        })), pageSize, { fields, maxTokens });
+
+        const described = [song && `"${song}"`, artist && `by ${artist}`].filter(Boolean).join(' ');
+        return {
+          success: page.totalCount > 0,
+          message: page.totalCount > 0
+            ? `Found ${page.totalCount} anime with ${kind ?? 'theme'} songs ${described}`
+            : `No anime found with ${kind ?? 'theme'} songs ${described}`,
+          results: page.results,
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          budget: page.budget
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to search theme songs",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  getAnimeReviews: tool({
+    description: "Read user reviews. With a title, returns the average overall, story, animation, sound, character and enjoyment scores of that anime and its most helpful review excerpts to quote. Without a title, finds anime whose average aspect scores meet aspectScores bounds, e.g. animation >= 9 but story <= 6",
+    inputSchema: z.object({
+      title: z.string().optional().describe("Title of the anime to read reviews for"),
+      aspect: reviewScoreFieldSchema.optional().describe("Pick excerpts that discuss this aspect"),
+      excerptLimit: z.number().optional().describe("Number of review excerpts to return per anime (default: 3)"),
+      aspectScores: z.array(z.object({
+        aspect: reviewScoreFieldSchema,
+        min: z.number().optional().describe("Minimum average score (0-10)"),
+        max: z.number().optional().describe("Maximum average score (0-10)"),
+      })).optional().describe("Bounds on average review scores, used when no title is given (e.g., [{ aspect: 'animation', min: 9 }, { aspect: 'story', max: 6 }])"),
+      minReviews: z.number().optional().describe("Only anime with at least this many reviews (default: 3)"),
+      pageSize: pageSizeSchema,
+      ...outputBudgetShape,
+      ...filterGroupSchema.omit({ searchQuery: true }).shape,
+    }),
+    execute: async ({ title, aspect, excerptLimit = 3, aspectScores, minReviews, pageSize, fields, maxTokens, ...criteria }) => {
+      try {
+        const [animeData, reviews] = await Promise.all([loadAnimeData(), loadReviews()]);
+        if (!reviews) {
+          return { success: false, message: MISSING_REVIEWS_MESSAGE, results: [], totalCount: 0 };
+        }
+        
+        if (title) {
+          const anime = findAnimeByTitle(animeData, title);
+          if (!anime) {
+            return { success: false, message: `No anime found with title "${title}"`, results: [], totalCount: 0 };
+          }
+          
+          const { summary, excerpts } = getAnimeReviews(anime, reviews, { aspect, limit: excerptLimit });
+          
+          return {
+            success: summary.reviewCount > 0,
+            message: summary.reviewCount > 0
+              ? `Found ${summary.reviewCount} reviews of ${anime.Title}`
+              : `No reviews found for ${anime.Title}`,
+            anime: {
+              malId: anime.MAL_ID,
+              title: anime.Title,
+              englishTitle: anime.English,
+              score: anime.Score
+            },
+            summary,
+            excerpts
+          };
+        }
+        
+        if (!aspectScores || aspectScores.length === 0) {
+          return { success: false, message: "Provide a title or aspectScores bounds", results: [], totalCount: 0 };
+        }
+        
+        const filters: AspectFilters = {};
+        for (const { aspect: field, min, max } of aspectScores) {
+          filters[field] = { ...filters[field], ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+        }
+        
+        // Restrict candidates only when criteria were given
+        const animeFilters = toAnimeFilters(criteria);
+        const within = await filterCandidates(animeFilters);
+        
+        const matches = filterAnimeByAspectScores(animeData, reviews, filters, { minReviews, within });
+        const page = createResultPage(matches.map(({ anime, summary }) => ({
+          malId: anime.MAL_ID,
+          title: anime.Title,
+          englishTitle: anime.English,
+          score: anime.Score,
+          episodes: anime.Episodes,
+          type: anime.Type,
+          genres: anime.Genres,
+          themes: anime.Themes,
+          studios: anime.Studios,
+          year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+          imageUrl: anime.imageUrl,
+          trailerUrl: anime.trailerUrl,
+          reviewCount: summary.reviewCount,
+          reviewScores: Object.fromEntries(
+            Object.entries(summary.scores).map(([field, { average }]) => [field, average])
+          )
+        })), pageSize, { fields, maxTokens });
+        
+        return {
+          success: page.totalCount > 0,
+          message: page.totalCount > 0
+            ? `Found ${page.totalCount} anime whose reviews match the aspect scores`
+            : "No anime have reviews matching those aspect scores",
+          results: page.results,
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          budget: page.budget
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to read reviews",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  getFansAlsoLiked: tool({
+    description: "Find what MyAnimeList users recommend to fans of one or more seed titles ('fans also liked'). Titles recommended from several seeds rank first. Each suggestion includes how many users recommended it and their rationale, to quote",
+    inputSchema: z.object({
+      titles: z.array(z.string()).min(1).describe("Seed anime titles the user liked"),
+      limit: z.number().optional().describe("Maximum number of suggestions to return (default: 10)"),
+      depth: z.union([z.literal(1), z.literal(2)]).optional().describe("1 = direct recommendations (default), 2 = also what fans of those recommend, for more variety"),
+      ...filterGroupSchema.omit({ searchQuery: true }).shape,
+    }),
+    execute: async ({ titles, limit = 10, depth = 1, ...criteria }) => {
+      try {
+        const [animeData, edges] = await Promise.all([loadAnimeData(), loadRecommendations()]);
+        if (!edges) {
+          return { success: false, message: MISSING_RECOMMENDATIONS_MESSAGE, results: [], totalCount: 0 };
+        }
+        
+        const seeds = titles.map(title => findAnimeByTitle(animeData, title));
+        const missing = titles.filter((_, i) => !seeds[i]);
+        if (missing.length === titles.length) {
+          return {
+            success: false,
+            message: `No anime found with title ${missing.map(title => `"${title}"`).join(', ')}`,
+            results: [],
+            totalCount: 0
+          };
+        }
+        
+        // Restrict candidates only when criteria were given
+        const filters = toAnimeFilters(criteria);
+        const within = await filterCandidates(filters);
+        
+        const found = seeds.filter((seed): seed is Anime => seed !== null);
+        const suggestions = getCommunityRecommendations(animeData, edges, found, { limit, depth, within });
+        
+        return {
+          success: suggestions.length > 0,
+          message: suggestions.length > 0
+            ? `Found ${suggestions.length} titles fans of ${found.map(seed => seed.Title).join(', ')} recommend`
+            : `No community recommendations found for ${found.map(seed => seed.Title).join(', ')}`,
+          seeds: found.map(seed => seed.Title),
+          ...(missing.length > 0 && { unknownTitles: missing }),
+          results: suggestions.map(({ anime, score, seedCount, links }) => ({
+            malId: anime.MAL_ID,
+            title: anime.Title,
+            englishTitle: anime.English,
+            score: anime.Score,
+            episodes: anime.Episodes,
+            type: anime.Type,
+            genres: anime.Genres,
+            themes: anime.Themes,
+            studios: anime.Studios,
+            year: anime.airedFrom?.slice(0, 4) ?? 'Unknown',
+            imageUrl: anime.imageUrl,
+            trailerUrl: anime.trailerUrl,
+            communityScore: score,
+            seedCount,
+            reasons: links.slice(0, 3).map(link =>
+              `${link.count} ${link.count === 1 ? 'user' : 'users'} who liked ${link.via ?? link.seed} recommend it` +
+              (link.rationale ? `: "${link.rationale.length > 200 ? `${link.rationale.substring(0, 200)}...` : link.rationale}"` : '')
+            )
+          })),
+          totalCount: suggestions.length
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to find community recommendations",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+
+  getWatchOrder: tool({
+    description: "Get the watch order of an anime's franchise (all seasons, movies, OVAs, side stories and recaps) in release order and in chronological story order. Entries that are optional to follow the main story are marked, with notes for recaps and side stories",
+    inputSchema: z.object({
+      title: z.string().describe("Title of any entry in the franchise"),
+      includeOptional: z.boolean().optional().describe("Include side stories, spin-offs, recaps and alternative versions (default: true; they are marked optional)"),
+    }),
+    execute: async ({ title, includeOptional = true }) => {
+      try {
+        const [animeData, relations, episodes] = await Promise.all([loadAnimeData(), loadRelations(), loadEpisodes()]);
+        if (!relations) {
+          return { success: false, message: MISSING_RELATIONS_MESSAGE, franchise: null };
+        }
+        
+        const anime = findAnimeByTitle(animeData, title);
+        if (!anime) {
+          return { success: false, message: `No anime found with title "${title}"`, franchise: null };
+        }
+        
+        const franchise = getFranchise(animeData, relations, anime);
+        if (!franchise) {
+          return {
+            success: true,
+            message: `${anime.Title} has no related entries; it can be watched on its own`,
+            franchise: null
+          };
+        }
+        
+        const keep = (entry: FranchiseEntry) => includeOptional || !entry.optional;
+        const releaseOrder = franchise.entries.filter(keep);
+        
+        return {
+          success: true,
+          message: `The ${franchise.name} franchise has ${franchise.entries.length} entries` +
+            (includeOptional ? '' : ` (${releaseOrder.length} in the main story)`),
+          franchise: {
+            name: franchise.name,
+            entryCount: franchise.entries.length
+          },
+          releaseOrder: toWatchOrderRows(releaseOrder, episodes),
+          chronologicalOrder: toWatchOrderRows(franchise.chronologicalOrder.filter(keep), episodes)
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to resolve the watch order",
+          error: error instanceof Error ? error.message : String(error),
+          franchise: null
+        };
+      }
+    },
+  }),
+
+  getWatchAnalytics: tool({
+    description: "Watch-status and score-distribution analytics. With a title: completion and drop rates, the 1-10 score histogram, score spread, polarization and whether it is divisive, compared with other titles of the same type. Without a title: averages for the cohort matching the criteria, plus its most divisive and least dropped titles",
+    inputSchema: z.object({
+      title: z.string().optional().describe("Title of the anime to analyze"),
+      limit: z.number().optional().describe("Titles to list per ranking in cohort mode (default: 5)"),
+      ...filterGroupSchema.shape,
+    }),
+    execute: async ({ title, limit = 5, ...criteria }) => {
+      try {
+        const animeData = await loadAnimeData();
+        
+        if (!animeData.some(anime => anime.watchStatistics)) {
+          return {
+            success: false,
+            message: "Watch statistics are not available. Place mal_statistics.csv next to the anime CSV and run `pnpm ingest`",
+            analytics: null
+          };
+        }
+        
+        if (title) {
+          const anime = findAnimeByTitle(animeData, title);
+          if (!anime) {
+            return { success: false, message: `No anime found with title "${title}"`, analytics: null };
+          }
+          if (!anime.watchStatistics) {
+            return { success: false, message: `No watch statistics for ${anime.Title}`, analytics: null };
+          }
+          
+          const sameType = animeData.filter(other => other.Type === anime.Type);
+          
+          return {
+            success: true,
+            message: `Watch analytics for ${anime.Title}`,
+            anime: {
+              malId: anime.MAL_ID,
+              title: anime.Title,
+              type: anime.Type,
+              score: anime.Score
+            },
+            analytics: {
+              ...anime.watchStatistics,
+              ...computeWatchAnalytics(anime.watchStatistics),
+              divisive: isDivisive(anime),
+              // % of titles of the same type with a lower value
+              percentiles: {
+                cohort: `${anime.Type || 'All'} anime`,
+                completionRate: getPercentile(sameType, anime, 'completionRate'),
+                dropRate: getPercentile(sameType, anime, 'dropRate'),
+                scoreStdDev: getPercentile(sameType, anime, 'scoreStdDev')
+              }
+            }
+          };
+        }
+        
+        const filters = toAnimeFilters(criteria);
+        const cohort = (await filterCandidates(filters)) ?? animeData;
+        const withStatistics = cohort.filter(anime => anime.dropRate !== null);
+        const toRow = (anime: Anime) => ({
+          malId: anime.MAL_ID,
+          title: anime.Title,
+          score: anime.Score,
+          completionRate: anime.completionRate,
+          dropRate: anime.dropRate,
+          scoreStdDev: anime.scoreStdDev,
+          polarization: anime.polarization
+        });
+        
+        return {
+          success: withStatistics.length > 0,
+          message: withStatistics.length > 0
+            ? `Watch analytics for ${withStatistics.length} of ${cohort.length} matching titles`
+            : "None of the matching titles have watch statistics",
+          analytics: summarizeCohort(cohort),
+          mostDivisive: withStatistics.filter(isDivisive)
+            .sort((a, b) => (b.polarization ?? 0) - (a.polarization ?? 0))
+            .slice(0, limit)
+            .map(toRow),
+          lowestDropRate: [...withStatistics]
+            .sort((a, b) => a.dropRate! - b.dropRate!)
+            .slice(0, limit)
+            .map(toRow)
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to compute watch analytics",
+          error: error instanceof Error ? error.message : String(error),
+          analytics: null
+        };
+      }
+    },
+  }),
+
+  getEpisodes: tool({
+    description: "Episode-level data: list the episodes of a series with titles, air dates, user scores (1-5) and filler/recap flags, find its best-rated episodes (sortBy: 'score'), or find which episodes aired on a given date",
+    inputSchema: z.object({
+      title: z.string().optional().describe("Title of the series"),
+      airedOn: z.string().optional().describe("Find episodes that aired on this date (YYYY-MM-DD or e.g. 'Apr 3, 2016'); across all series unless a title is given"),
+      query: z.string().optional().describe("Only episodes whose title contains this text"),
+      sortBy: z.enum(['number', 'score']).optional().describe("'number' for episode order (default), 'score' for best-rated first"),
+      minVotes: z.number().optional().describe("With sortBy 'score', skip episodes with fewer votes (default: 0)"),
+      excludeFiller: z.boolean().optional().describe("Leave out filler and recap episodes"),
+      pageSize: pageSizeSchema,
+      ...outputBudgetShape,
+    }),
+    execute: async ({ title, airedOn, query, sortBy = 'number', minVotes = 0, excludeFiller, pageSize, fields, maxTokens }) => {
+      try {
+        const [animeData, episodes] = await Promise.all([loadAnimeData(), loadEpisodes()]);
+        if (!episodes) {
+          return { success: false, message: MISSING_EPISODES_MESSAGE, results: [], totalCount: 0 };
+        }
+        
+        const anime = title ? findAnimeByTitle(animeData, title) : null;
+        if (title && !anime) {
+          return { success: false, message: `No anime found with title "${title}"`, results: [], totalCount: 0 };
+        }
+        
+        if (airedOn) {
+          const matches = findEpisodesByAirDate(animeData, episodes, airedOn, anime ? [anime] : undefined);
+          return {
+            success: matches.length > 0,
+            message: matches.length > 0
+              ? `Found ${matches.length} episodes that aired on ${airedOn}`
+              : `No episodes found that aired on ${airedOn}${anime ? ` for ${anime.Title}` : ''}`,
+            results: matches.map(({ anime: series, episode }) => ({
+              seriesMalId: series.MAL_ID,
+              seriesTitle: series.Title,
+              ...toEpisodeRow(episode)
+            })),
+            totalCount: matches.length
+          };
+        }
+        
+        if (!anime) {
+          return { success: false, message: "Provide a title or an airedOn date", results: [], totalCount: 0 };
+        }
+        
+        const seriesEpisodes = getSeriesEpisodes(episodes, anime.MAL_ID);
+        let selected = seriesEpisodes.filter(episode =>
+          (!query || episode.title.toLowerCase().includes(query.toLowerCase())) &&
+          (!excludeFiller || (!episode.filler && !episode.recap))
+        );
+        if (sortBy === 'score') {
+          selected = getBestEpisodes(selected, { limit: selected.length, minVotes });
+        }
+        
+        const scored = seriesEpisodes.filter(episode => episode.score !== null);
+        const page = createResultPage(selected.map(toEpisodeRow), pageSize, { fields, maxTokens });
+        
+        return {
+          success: page.totalCount > 0,
+          message: page.totalCount > 0
+            ? `Found ${page.totalCount} episodes of ${anime.Title}`
+            : `No episodes found for ${anime.Title}`,
+          anime: {
+            malId: anime.MAL_ID,
+            title: anime.Title,
+            englishTitle: anime.English,
+            episodes: anime.Episodes
+          },
+          summary: {
+            episodeCount: seriesEpisodes.length,
+            averageScore: scored.length > 0
+              ? Math.round(scored.reduce((sum, episode) => sum + episode.score!, 0) / scored.length * 100) / 100
+              : null,
+            fillerEpisodes: seriesEpisodes.filter(episode => episode.filler).map(episode => episode.number),
+            recapEpisodes: seriesEpisodes.filter(episode => episode.recap).map(episode => episode.number)
+          },
+          sparkline: getScoreSparkline(seriesEpisodes),
+          results: page.results,
+          totalCount: page.totalCount,
+          nextCursor: page.nextCursor,
+          budget: page.budget
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: "Failed to retrieve episodes",
+          error: error instanceof Error ? error.message : String(error),
+          results: []
+        };
+      }
+    },
+  }),
+});